@@ -0,0 +1,132 @@
+// This file defines the helpers that add rows and columns to a table.
+// They are used both by the commands and by the paste code, which
+// grows tables to fit pasted cells. It doesn't import either of those
+// modules, so that they don't have to import each other.
+
+import { Node } from 'prosemirror-model';
+import { Transaction } from 'prosemirror-state';
+
+import { tableNodeTypes } from './schema';
+import { Rect, TableMap } from './tablemap';
+import { addColSpan, CellAttrs, columnIsHeader } from './util';
+
+/**
+ * @public
+ */
+export type TableRect = Rect & {
+  tableStart: number;
+  map: TableMap;
+  table: Node;
+};
+
+/**
+ * Add a column at the given position in a table.
+ *
+ * @public
+ */
+export function addColumn(
+  tr: Transaction,
+  rect: TableRect,
+  col: number,
+): Transaction {
+  return addColumnFrom(tr, rect, col, 0);
+}
+
+/**
+ * Add a column like [`addColumn`](#addColumn), but only map positions
+ * through the steps from index `mapFrom` onward. Passing the number
+ * of steps the transaction already has allows the rect to describe
+ * the table as it is in `tr.doc`.
+ *
+ * @internal
+ */
+export function addColumnFrom(
+  tr: Transaction,
+  { map, tableStart, table }: TableRect,
+  col: number,
+  mapFrom: number,
+): Transaction {
+  let refColumn: number | null = col > 0 ? -1 : 0;
+  if (columnIsHeader(map, table, col + refColumn)) {
+    refColumn = col == 0 || col == map.width ? null : 0;
+  }
+
+  for (let row = 0; row < map.height; row++) {
+    const index = row * map.width + col;
+    // If this position falls inside a col-spanning cell
+    if (col > 0 && col < map.width && map.map[index - 1] == map.map[index]) {
+      const pos = map.map[index];
+      const cell = table.nodeAt(pos)!;
+      tr.setNodeMarkup(
+        tr.mapping.slice(mapFrom).map(tableStart + pos),
+        null,
+        addColSpan(cell.attrs as CellAttrs, col - map.colCount(pos)),
+      );
+      // Skip ahead if rowspan > 1
+      row += cell.attrs.rowspan - 1;
+    } else {
+      const type =
+        refColumn == null
+          ? tableNodeTypes(table.type.schema).cell
+          : table.nodeAt(map.map[index + refColumn])!.type;
+      const pos = map.positionAt(row, col, table);
+      tr.insert(
+        tr.mapping.slice(mapFrom).map(tableStart + pos),
+        type.createAndFill()!,
+      );
+    }
+  }
+  return tr;
+}
+
+/**
+ * @public
+ */
+export function rowIsHeader(map: TableMap, table: Node, row: number): boolean {
+  const headerCell = tableNodeTypes(table.type.schema).header_cell;
+  for (let col = 0; col < map.width; col++)
+    if (table.nodeAt(map.map[col + row * map.width])?.type != headerCell)
+      return false;
+  return true;
+}
+
+/**
+ * @public
+ */
+export function addRow(
+  tr: Transaction,
+  { map, tableStart, table }: TableRect,
+  row: number,
+): Transaction {
+  let rowPos = tableStart;
+  for (let i = 0; i < row; i++) rowPos += table.child(i).nodeSize;
+  const cells = [];
+  let refRow: number | null = row > 0 ? -1 : 0;
+  if (rowIsHeader(map, table, row + refRow))
+    refRow = row == 0 || row == map.height ? null : 0;
+  for (let col = 0, index = map.width * row; col < map.width; col++, index++) {
+    // Covered by a rowspan cell
+    if (
+      row > 0 &&
+      row < map.height &&
+      map.map[index] == map.map[index - map.width]
+    ) {
+      const pos = map.map[index];
+      const attrs = table.nodeAt(pos)!.attrs;
+      tr.setNodeMarkup(tableStart + pos, null, {
+        ...attrs,
+        rowspan: attrs.rowspan + 1,
+      });
+      col += attrs.colspan - 1;
+    } else {
+      const type =
+        refRow == null
+          ? tableNodeTypes(table.type.schema).cell
+          : table.nodeAt(map.map[index + refRow * map.width])?.type;
+      const node = type?.createAndFill();
+      if (node) cells.push(node);
+    }
+  }
+  tr.insert(rowPos, tableNodeTypes(table.type.schema).row.create(null, cells));
+  return tr;
+}
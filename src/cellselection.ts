@@ -16,7 +16,7 @@ import { Decoration, DecorationSet, DecorationSource } from 'prosemirror-view';
 
 import { Mappable } from 'prosemirror-transform';
 import { TableMap } from './tablemap';
-import { CellAttrs, inSameTable, pointsAtCell } from './util';
+import { CellAttrs, inSameTable, pointsAtCell, removeColSpan } from './util';
 
 /**
  * @public
@@ -133,8 +133,17 @@ export class CellSelection extends Selection {
         const extraRight = cellRect.right - rect.right;
 
         if (extraLeft > 0 || extraRight > 0) {
-          const attrs = cell.attrs as CellAttrs;
-
+          let attrs = cell.attrs as CellAttrs;
+          if (extraLeft > 0) {
+            attrs = removeColSpan(attrs, 0, extraLeft);
+          }
+          if (extraRight > 0) {
+            attrs = removeColSpan(
+              attrs,
+              attrs.colspan - extraRight,
+              extraRight,
+            );
+          }
           if (cellRect.left < rect.left) {
             cell = cell.type.createAndFill(attrs);
             if (!cell) {
@@ -149,6 +158,9 @@ export class CellSelection extends Selection {
         if (cellRect.top < rect.top || cellRect.bottom > rect.bottom) {
           const attrs = {
             ...cell.attrs,
+            rowspan:
+              Math.min(cellRect.bottom, rect.bottom) -
+              Math.max(cellRect.top, rect.top),
           };
           if (cellRect.top < rect.top) {
             cell = cell.type.createAndFill(attrs)!;
@@ -212,8 +224,8 @@ export class CellSelection extends Selection {
     const headTop = this.$headCell.index(-1);
     if (Math.min(anchorTop, headTop) > 0) return false;
 
-    const anchorBottom = anchorTop + (this.$anchorCell.nodeAfter ? 1 : 0);
-    const headBottom = headTop + (this.$headCell.nodeAfter ? 1 : 0);
+    const anchorBottom = anchorTop + this.$anchorCell.nodeAfter!.attrs.rowspan;
+    const headBottom = headTop + this.$headCell.nodeAfter!.attrs.rowspan;
     return (
       Math.max(anchorBottom, headBottom) == this.$headCell.node(-1).childCount
     );
@@ -264,8 +276,8 @@ export class CellSelection extends Selection {
     const headLeft = map.colCount(this.$headCell.pos - tableStart);
     if (Math.min(anchorLeft, headLeft) > 0) return false;
 
-    const anchorRight = anchorLeft + (this.$anchorCell.nodeAfter ? 1 : 0);
-    const headRight = headLeft + (this.$headCell.nodeAfter ? 1 : 0);
+    const anchorRight = anchorLeft + this.$anchorCell.nodeAfter!.attrs.colspan;
+    const headRight = headLeft + this.$headCell.nodeAfter!.attrs.colspan;
     return Math.max(anchorRight, headRight) == map.width;
   }
 
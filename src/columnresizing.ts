@@ -0,0 +1,539 @@
+// This file defines a plugin that lets the user resize table columns
+// by dragging the border between two cells. The resulting widths are
+// stored in the `colwidth` attribute of the cells in that column.
+
+import { Attrs, Node as ProsemirrorNode } from 'prosemirror-model';
+import {
+  Command,
+  EditorState,
+  Plugin,
+  PluginKey,
+  Transaction,
+} from 'prosemirror-state';
+import {
+  Decoration,
+  DecorationSet,
+  EditorView,
+  NodeView,
+} from 'prosemirror-view';
+import { selectedRect } from './commands';
+import { tableNodeTypes } from './schema';
+import { TableMap } from './tablemap';
+import { TableView, updateColumnsOnResize } from './tableview';
+import { cellAround, CellAttrs, isInTable, pointsAtCell } from './util';
+
+/**
+ * @public
+ */
+export const columnResizingPluginKey = new PluginKey<ResizeState>(
+  'tableColumnResizing',
+);
+
+/**
+ * @public
+ */
+export type ColumnResizingOptions = {
+  /**
+   * The width, in pixels, of the area at the edge of a cell that
+   * activates the resize handle.
+   */
+  handleWidth?: number;
+  /**
+   * The minimum width, in pixels, a column can be dragged to.
+   */
+  cellMinWidth?: number;
+  /**
+   * Whether the right border of the last column can be dragged.
+   */
+  lastColumnResizable?: boolean;
+  /**
+   * The node view used to render tables, which should keep a
+   * `<colgroup>` in sync with the column widths. Defaults to
+   * `TableView`.
+   */
+  View?: new (
+    node: ProsemirrorNode,
+    cellMinWidth: number,
+    view: EditorView,
+  ) => NodeView;
+};
+
+/**
+ * @public
+ */
+export type Dragging = { startX: number; startWidth: number };
+
+/**
+ * Creates a plugin that shows a resize handle when the mouse hovers
+ * over a column border, and updates the `colwidth` attribute of the
+ * cells in that column when the handle is dragged.
+ *
+ * @public
+ */
+export function columnResizing({
+  handleWidth = 5,
+  cellMinWidth = 25,
+  View = TableView,
+  lastColumnResizable = true,
+}: ColumnResizingOptions = {}): Plugin {
+  const plugin = new Plugin<ResizeState>({
+    key: columnResizingPluginKey,
+    // Read by the column width commands, so that they default to the
+    // same minimum as dragging.
+    cellMinWidth,
+    state: {
+      init(_, state) {
+        plugin.spec!.props!.nodeViews![
+          tableNodeTypes(state.schema).table.name
+        ] = (node, view) => new View(node, cellMinWidth, view);
+        return new ResizeState(-1, false);
+      },
+      apply(tr, prev) {
+        return prev.apply(tr);
+      },
+    },
+    props: {
+      attributes: (state): Record<string, string> => {
+        const pluginState = columnResizingPluginKey.getState(state);
+        return pluginState && pluginState.activeHandle > -1
+          ? { class: 'resize-cursor' }
+          : {};
+      },
+
+      handleDOMEvents: {
+        mousemove: (view, event) => {
+          handleMouseMove(
+            view,
+            event,
+            handleWidth,
+            cellMinWidth,
+            lastColumnResizable,
+          );
+        },
+        mouseleave: (view) => {
+          handleMouseLeave(view);
+        },
+        mousedown: (view, event) => {
+          handleMouseDown(view, event, cellMinWidth);
+        },
+      },
+
+      decorations: (state) => {
+        const pluginState = columnResizingPluginKey.getState(state);
+        if (pluginState && pluginState.activeHandle > -1) {
+          return handleDecorations(state, pluginState.activeHandle);
+        }
+      },
+
+      nodeViews: {},
+    },
+  });
+  return plugin;
+}
+
+/**
+ * @public
+ */
+export class ResizeState {
+  constructor(public activeHandle: number, public dragging: Dragging | false) {}
+
+  apply(tr: Transaction): ResizeState {
+    // eslint-disable-next-line @typescript-eslint/no-this-alias
+    const state = this;
+    const action = tr.getMeta(columnResizingPluginKey);
+    if (action && action.setHandle != null)
+      return new ResizeState(action.setHandle, false);
+    if (action && action.setDragging !== undefined)
+      return new ResizeState(state.activeHandle, action.setDragging);
+    if (state.activeHandle > -1 && tr.docChanged) {
+      let handle = tr.mapping.map(state.activeHandle, -1);
+      if (!pointsAtCell(tr.doc.resolve(handle))) {
+        handle = -1;
+      }
+      return new ResizeState(handle, state.dragging);
+    }
+    return state;
+  }
+}
+
+function handleMouseMove(
+  view: EditorView,
+  event: MouseEvent,
+  handleWidth: number,
+  cellMinWidth: number,
+  lastColumnResizable: boolean,
+): void {
+  const pluginState = columnResizingPluginKey.getState(view.state);
+  if (!pluginState) return;
+
+  if (!pluginState.dragging) {
+    const target = domCellAround(event.target as HTMLElement);
+    let cell = -1;
+    if (target) {
+      const { left, right } = target.getBoundingClientRect();
+      if (event.clientX - left <= handleWidth)
+        cell = edgeCell(view, event, 'left', handleWidth);
+      else if (right - event.clientX <= handleWidth)
+        cell = edgeCell(view, event, 'right', handleWidth);
+    }
+
+    if (cell != pluginState.activeHandle) {
+      if (!lastColumnResizable && cell !== -1) {
+        const $cell = view.state.doc.resolve(cell);
+        const table = $cell.node(-1);
+        const map = TableMap.get(table);
+        const tableStart = $cell.start(-1);
+        const col =
+          map.colCount($cell.pos - tableStart) +
+          $cell.nodeAfter!.attrs.colspan -
+          1;
+
+        if (col == map.width - 1) {
+          return;
+        }
+      }
+
+      updateHandle(view, cell);
+    }
+  }
+}
+
+function handleMouseLeave(view: EditorView): void {
+  const pluginState = columnResizingPluginKey.getState(view.state);
+  if (pluginState && pluginState.activeHandle > -1 && !pluginState.dragging)
+    updateHandle(view, -1);
+}
+
+function handleMouseDown(
+  view: EditorView,
+  event: MouseEvent,
+  cellMinWidth: number,
+): boolean {
+  const pluginState = columnResizingPluginKey.getState(view.state);
+  if (!pluginState || pluginState.activeHandle == -1 || pluginState.dragging)
+    return false;
+
+  const cell = view.state.doc.nodeAt(pluginState.activeHandle)!;
+  const width = currentColWidth(view, pluginState.activeHandle, cell.attrs);
+  view.dispatch(
+    view.state.tr.setMeta(columnResizingPluginKey, {
+      setDragging: { startX: event.clientX, startWidth: width },
+    }),
+  );
+
+  function finish(event: MouseEvent) {
+    window.removeEventListener('mouseup', finish);
+    window.removeEventListener('mousemove', move);
+    const pluginState = columnResizingPluginKey.getState(view.state);
+    if (pluginState?.dragging) {
+      updateColumnWidth(
+        view,
+        pluginState.activeHandle,
+        draggedWidth(pluginState.dragging, event, cellMinWidth),
+      );
+      view.dispatch(
+        view.state.tr.setMeta(columnResizingPluginKey, { setDragging: null }),
+      );
+    }
+  }
+
+  function move(event: MouseEvent): void {
+    if (!event.which) return finish(event);
+    const pluginState = columnResizingPluginKey.getState(view.state);
+    if (!pluginState) return;
+    if (pluginState.dragging) {
+      const dragged = draggedWidth(pluginState.dragging, event, cellMinWidth);
+      displayColumnWidth(view, pluginState.activeHandle, dragged, cellMinWidth);
+    }
+  }
+
+  window.addEventListener('mouseup', finish);
+  window.addEventListener('mousemove', move);
+  event.preventDefault();
+  return true;
+}
+
+function currentColWidth(
+  view: EditorView,
+  cellPos: number,
+  { colspan, colwidth }: Attrs,
+): number {
+  const width = colwidth && colwidth[colwidth.length - 1];
+  if (width) return width;
+  const dom = view.domAtPos(cellPos);
+  const node = dom.node.childNodes[dom.offset] as HTMLElement;
+  let domWidth = node.offsetWidth,
+    parts = colspan;
+  if (colwidth)
+    for (let i = 0; i < colspan; i++)
+      if (colwidth[i]) {
+        domWidth -= colwidth[i];
+        parts--;
+      }
+  return domWidth / parts;
+}
+
+function domCellAround(target: HTMLElement | null): HTMLElement | null {
+  while (target && target.nodeName != 'TD' && target.nodeName != 'TH')
+    target =
+      target.classList && target.classList.contains('ProseMirror')
+        ? null
+        : (target.parentNode as HTMLElement);
+  return target;
+}
+
+function edgeCell(
+  view: EditorView,
+  event: MouseEvent,
+  side: 'left' | 'right',
+  handleWidth: number,
+): number {
+  // posAtCoords returns inconsistent positions when cursor is moving
+  // across a collapsed table border. Use an offset to adjust the
+  // target viewport coordinates away from the table border.
+  const offset = side == 'right' ? -handleWidth : handleWidth;
+  const found = view.posAtCoords({
+    left: event.clientX + offset,
+    top: event.clientY,
+  });
+  if (!found) return -1;
+  const { pos } = found;
+  const $cell = cellAround(view.state.doc.resolve(pos));
+  if (!$cell) return -1;
+  if (side == 'right') return $cell.pos;
+  const map = TableMap.get($cell.node(-1)),
+    start = $cell.start(-1);
+  const index = map.map.indexOf($cell.pos - start);
+  return index % map.width == 0 ? -1 : start + map.map[index - 1];
+}
+
+function draggedWidth(
+  dragging: Dragging,
+  event: MouseEvent,
+  cellMinWidth: number,
+): number {
+  const offset = event.clientX - dragging.startX;
+  return Math.max(cellMinWidth, dragging.startWidth + offset);
+}
+
+function updateHandle(view: EditorView, value: number): void {
+  view.dispatch(
+    view.state.tr.setMeta(columnResizingPluginKey, { setHandle: value }),
+  );
+}
+
+function updateColumnWidth(
+  view: EditorView,
+  cell: number,
+  width: number,
+): void {
+  const $cell = view.state.doc.resolve(cell);
+  const table = $cell.node(-1),
+    map = TableMap.get(table),
+    start = $cell.start(-1);
+  const col =
+    map.colCount($cell.pos - start) + $cell.nodeAfter!.attrs.colspan - 1;
+  const tr = view.state.tr;
+  setColWidth(tr, map, start, col, width);
+  if (tr.docChanged) view.dispatch(tr);
+}
+
+// Store the given width for column `col` in every cell that covers
+// that column.
+function setColWidth(
+  tr: Transaction,
+  map: TableMap,
+  start: number,
+  col: number,
+  width: number,
+): void {
+  for (let row = 0; row < map.height; row++) {
+    const mapIndex = row * map.width + col;
+    // Rowspanning cell that has already been handled
+    if (row && map.map[mapIndex] == map.map[mapIndex - map.width]) continue;
+    const pos = map.map[mapIndex];
+    // Read the cell from the transaction, since earlier calls may
+    // already have updated its widths
+    const attrs = tr.doc.nodeAt(start + pos)!.attrs as CellAttrs;
+    const index = attrs.colspan == 1 ? 0 : col - map.colCount(pos);
+    if (attrs.colwidth && attrs.colwidth[index] == width) continue;
+    const colwidth = attrs.colwidth
+      ? attrs.colwidth.slice()
+      : zeroes(attrs.colspan);
+    colwidth[index] = width;
+    tr.setNodeMarkup(start + pos, null, { ...attrs, colwidth: colwidth });
+  }
+}
+
+// Find the width of column `col`, either from the `colwidth` attribute
+// of a cell covering it or, failing that, by measuring the cell in the
+// view. Returns null when the width can't be determined.
+function columnWidth(
+  table: ProsemirrorNode,
+  map: TableMap,
+  start: number,
+  col: number,
+  view?: EditorView,
+): number | null {
+  for (let row = 0; row < map.height; row++) {
+    const pos = map.map[row * map.width + col];
+    const { colwidth } = table.nodeAt(pos)!.attrs as CellAttrs;
+    const width = colwidth && colwidth[col - map.colCount(pos)];
+    if (width) return width;
+  }
+  if (!view) return null;
+  const pos = map.map[col];
+  const cell = table.nodeAt(pos)!;
+  const dom = view.nodeDOM(start + pos) as HTMLElement | null;
+  if (!dom || !dom.offsetWidth) return null;
+  return dom.offsetWidth / cell.attrs.colspan;
+}
+
+/**
+ * @public
+ */
+export type ColumnWidthOptions = {
+  /**
+   * The minimum width, in pixels, a column can be given. Defaults
+   * to the `cellMinWidth` of the editor's
+   * [`columnResizing`](#columnResizing) plugin, or 25 when there is
+   * no such plugin.
+   */
+  cellMinWidth?: number;
+};
+
+function minCellWidth(
+  state: EditorState,
+  { cellMinWidth }: ColumnWidthOptions,
+): number {
+  if (cellMinWidth != null) return cellMinWidth;
+  const plugin = columnResizingPluginKey.get(state);
+  return plugin ? (plugin.spec.cellMinWidth as number) : 25;
+}
+
+/**
+ * Returns a command that widens (positive `delta`) or narrows
+ * (negative `delta`) the columns covered by the selection by the
+ * given number of pixels. Columns without a stored width are measured
+ * in the view, when one is given to the command.
+ *
+ * @public
+ */
+export function resizeColumnBy(
+  delta: number,
+  options: ColumnWidthOptions = {},
+): Command {
+  return (state, dispatch, view) => {
+    if (!isInTable(state)) return false;
+    const cellMinWidth = minCellWidth(state, options);
+    const { left, right, map, table, tableStart } = selectedRect(state);
+    const tr = state.tr;
+    for (let col = left; col < right; col++) {
+      const current = columnWidth(table, map, tableStart, col, view);
+      if (current == null) continue;
+      const width = Math.max(cellMinWidth, Math.round(current + delta));
+      setColWidth(tr, map, tableStart, col, width);
+    }
+    if (!tr.docChanged) return false;
+    if (dispatch) dispatch(tr);
+    return true;
+  };
+}
+
+/**
+ * Returns a command that sets the width of column `col` (counted from
+ * the left of the table that holds the selection) to the given number
+ * of pixels, but no less than the minimum cell width.
+ *
+ * @public
+ */
+export function setColumnWidth(
+  col: number,
+  width: number,
+  options: ColumnWidthOptions = {},
+): Command {
+  return (state, dispatch) => {
+    if (!isInTable(state)) return false;
+    const cellMinWidth = minCellWidth(state, options);
+    const { map, tableStart } = selectedRect(state);
+    if (col < 0 || col >= map.width) return false;
+    const tr = state.tr;
+    setColWidth(
+      tr,
+      map,
+      tableStart,
+      col,
+      Math.max(cellMinWidth, Math.round(width)),
+    );
+    if (!tr.docChanged) return false;
+    if (dispatch) dispatch(tr);
+    return true;
+  };
+}
+
+function displayColumnWidth(
+  view: EditorView,
+  cell: number,
+  width: number,
+  cellMinWidth: number,
+): void {
+  const $cell = view.state.doc.resolve(cell);
+  const table = $cell.node(-1),
+    start = $cell.start(-1);
+  const col =
+    TableMap.get(table).colCount($cell.pos - start) +
+    $cell.nodeAfter!.attrs.colspan -
+    1;
+  let dom: Node | null = view.domAtPos($cell.start(-1)).node;
+  while (dom && dom.nodeName != 'TABLE') {
+    dom = dom.parentNode;
+  }
+  if (!dom) return;
+  updateColumnsOnResize(
+    table,
+    dom.firstChild as HTMLTableColElement,
+    dom as HTMLTableElement,
+    cellMinWidth,
+    col,
+    width,
+  );
+}
+
+function zeroes(n: number): 0[] {
+  return Array(n).fill(0);
+}
+
+/**
+ * @public
+ */
+export function handleDecorations(
+  state: EditorState,
+  cell: number,
+): DecorationSet {
+  const decorations = [];
+  const $cell = state.doc.resolve(cell);
+  const table = $cell.node(-1);
+  if (!table) {
+    return DecorationSet.empty;
+  }
+  const map = TableMap.get(table);
+  const start = $cell.start(-1);
+  const col = map.colCount($cell.pos - start) + $cell.nodeAfter!.attrs.colspan;
+  for (let row = 0; row < map.height; row++) {
+    const index = col + row * map.width - 1;
+    // For positions that have either a different cell or the end
+    // of the table to their right, and either the top of the table or
+    // a different cell above them, add a decoration
+    if (
+      (col == map.width || map.map[index] != map.map[index + 1]) &&
+      (row == 0 || map.map[index] != map.map[index - map.width])
+    ) {
+      const cellPos = map.map[index];
+      const pos = start + cellPos + table.nodeAt(cellPos)!.nodeSize - 1;
+      const dom = document.createElement('div');
+      dom.className = 'column-resize-handle';
+      decorations.push(Decoration.widget(pos, dom));
+    }
+  }
+  return DecorationSet.create(state.doc, decorations);
+}
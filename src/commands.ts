@@ -1,32 +1,45 @@
 // This file defines a number of table-related commands.
 
-import { Fragment, Node, NodeType, ResolvedPos } from 'prosemirror-model';
+import {
+  Fragment,
+  Node,
+  NodeType,
+  ResolvedPos,
+  Slice,
+} from 'prosemirror-model';
 import {
   Command,
   EditorState,
+  Selection,
   TextSelection,
   Transaction,
 } from 'prosemirror-state';
+import { canSplit, insertPoint } from 'prosemirror-transform';
 
+import { addColumn, addRow, rowIsHeader, TableRect } from './addlines';
 import { CellSelection } from './cellselection';
+import { insertCells } from './copypaste';
 import type { Direction } from './input';
-import { tableNodeTypes } from './schema';
-import { Rect, TableMap } from './tablemap';
+import { tableNodeTypes, TableRole } from './schema';
+import { detectSeries } from './series';
+import { isColumnBoundary, isRowBoundary, Rect, TableMap } from './tablemap';
 import {
-  columnIsHeader,
+  addColSpan,
+  cellAround,
+  CellAlignment,
+  CellAttrs,
+  CellVerticalAlign,
+  cellWrapping,
   isInTable,
+  isSafeStyleValue,
   moveCellForward,
+  removeColSpan,
   selectionCell,
+  tableFields,
 } from './util';
 
-/**
- * @public
- */
-export type TableRect = Rect & {
-  tableStart: number;
-  map: TableMap;
-  table: Node;
-};
+export { addColumn, addRow, rowIsHeader } from './addlines';
+export type { TableRect } from './addlines';
 
 /**
  * Helper to get the selected rectangle in a table, if any. Adds table
@@ -51,34 +64,6 @@ export function selectedRect(state: EditorState): TableRect {
   return { ...rect, tableStart, map, table };
 }
 
-/**
- * Add a column at the given position in a table.
- *
- * @public
- */
-export function addColumn(
-  tr: Transaction,
-  { map, tableStart, table }: TableRect,
-  col: number,
-): Transaction {
-  let refColumn: number | null = col > 0 ? -1 : 0;
-  if (columnIsHeader(map, table, col + refColumn)) {
-    refColumn = col == 0 || col == map.width ? null : 0;
-  }
-
-  for (let row = 0; row < map.height; row++) {
-    const index = row * map.width + col;
-
-    const type =
-      refColumn == null
-        ? tableNodeTypes(table.type.schema).cell
-        : table.nodeAt(map.map[index + refColumn])!.type;
-    const pos = map.positionAt(row, col, table);
-    tr.insert(tr.mapping.map(tableStart + pos), type.createAndFill()!);
-  }
-  return tr;
-}
-
 /**
  * Command to add a column before the column with the selection.
  *
@@ -123,13 +108,26 @@ export function removeColumn(
 ) {
   const mapStart = tr.mapping.maps.length;
 
-  for (let row = 0; row < map.height; row++) {
+  for (let row = 0; row < map.height; ) {
     const index = row * map.width + col;
     const pos = map.map[index];
     const cell = table.nodeAt(pos)!;
-    const start = tr.mapping.slice(mapStart).map(tableStart + pos);
-
-    tr.delete(start, start + cell.nodeSize);
+    const attrs = cell.attrs as CellAttrs;
+    // If this is part of a col-spanning cell
+    if (
+      (col > 0 && map.map[index - 1] == pos) ||
+      (col < map.width - 1 && map.map[index + 1] == pos)
+    ) {
+      tr.setNodeMarkup(
+        tr.mapping.slice(mapStart).map(tableStart + pos),
+        null,
+        removeColSpan(attrs, col - map.colCount(pos)),
+      );
+    } else {
+      const start = tr.mapping.slice(mapStart).map(tableStart + pos);
+      tr.delete(start, start + cell.nodeSize);
+    }
+    row += attrs.rowspan;
   }
 }
 
@@ -165,43 +163,6 @@ export function deleteColumn(
   return true;
 }
 
-/**
- * @public
- */
-export function rowIsHeader(map: TableMap, table: Node, row: number): boolean {
-  const headerCell = tableNodeTypes(table.type.schema).header_cell;
-  for (let col = 0; col < map.width; col++)
-    if (table.nodeAt(map.map[col + row * map.width])?.type != headerCell)
-      return false;
-  return true;
-}
-
-/**
- * @public
- */
-export function addRow(
-  tr: Transaction,
-  { map, tableStart, table }: TableRect,
-  row: number,
-): Transaction {
-  let rowPos = tableStart;
-  for (let i = 0; i < row; i++) rowPos += table.child(i).nodeSize;
-  const cells = [];
-  let refRow: number | null = row > 0 ? -1 : 0;
-  if (rowIsHeader(map, table, row + refRow))
-    refRow = row == 0 || row == map.height ? null : 0;
-  for (let col = 0, index = map.width * row; col < map.width; col++, index++) {
-    const type =
-      refRow == null
-        ? tableNodeTypes(table.type.schema).cell
-        : table.nodeAt(map.map[index + refRow * map.width])?.type;
-    const node = type?.createAndFill();
-    if (node) cells.push(node);
-  }
-  tr.insert(rowPos, tableNodeTypes(table.type.schema).row.create(null, cells));
-  return tr;
-}
-
 /**
  * Add a table row before the selection.
  *
@@ -241,7 +202,7 @@ export function addRowAfter(
  */
 export function removeRow(
   tr: Transaction,
-  { table, tableStart }: TableRect,
+  { map, table, tableStart }: TableRect,
   row: number,
 ): void {
   let rowPos = 0;
@@ -250,8 +211,39 @@ export function removeRow(
   }
   const nextRow = rowPos + table.child(row).nodeSize;
 
-  // 단순히 해당 행을 삭제합니다.
+  const mapFrom = tr.mapping.maps.length;
   tr.delete(rowPos + tableStart, nextRow + tableStart);
+
+  const seen = new Set<number>();
+
+  for (let col = 0, index = row * map.width; col < map.width; col++, index++) {
+    const pos = map.map[index];
+
+    // Skip cells that are checked already
+    if (seen.has(pos)) continue;
+    seen.add(pos);
+
+    if (row > 0 && pos == map.map[index - map.width]) {
+      // If this cell starts in the row above, simply reduce its rowspan
+      const attrs = table.nodeAt(pos)!.attrs as CellAttrs;
+      tr.setNodeMarkup(tr.mapping.slice(mapFrom).map(pos + tableStart), null, {
+        ...attrs,
+        rowspan: attrs.rowspan - 1,
+      });
+      col += attrs.colspan - 1;
+    } else if (row < map.height && pos == map.map[index + map.width]) {
+      // Else, if it continues in the row below, it has to be moved down
+      const cell = table.nodeAt(pos)!;
+      const attrs = cell.attrs as CellAttrs;
+      const copy = cell.type.create(
+        { ...attrs, rowspan: cell.attrs.rowspan - 1 },
+        cell.content,
+      );
+      const newPos = map.positionAt(row + 1, col, table);
+      tr.insert(tr.mapping.slice(mapFrom).map(tableStart + newPos), copy);
+      col += attrs.colspan - 1;
+    }
+  }
 }
 
 /**
@@ -285,6 +277,392 @@ export function deleteRow(
   return true;
 }
 
+/**
+ * @public
+ */
+export interface MoveTableLineOptions {
+  /**
+   * The index of the first row (or column) to move.
+   */
+  from: number;
+  /**
+   * The index the first moved row (or column) should end up at.
+   */
+  to: number;
+  /**
+   * The number of rows (or columns) to move. Defaults to 1.
+   */
+  count?: number;
+}
+
+// Check whether the given move is in range and doesn't cut through
+// any spanning cells, and return the new index of every line.
+function lineOrder(
+  size: number,
+  isBoundary: (line: number) => boolean,
+  { from, to, count = 1 }: MoveTableLineOptions,
+): number[] | null {
+  if (from == to || count < 1) return null;
+  if (from < 0 || from + count > size || to < 0 || to + count > size)
+    return null;
+  const target = to < from ? to : to + count;
+  if (!isBoundary(from) || !isBoundary(from + count) || !isBoundary(target))
+    return null;
+  const order: number[] = [];
+  for (let i = 0; i < size; i++)
+    if (i < from || i >= from + count) order.push(i);
+  for (let i = 0; i < count; i++) order.splice(to + i, 0, from + i);
+  const result: number[] = [];
+  order.forEach((line, index) => (result[line] = index));
+  return result;
+}
+
+/**
+ * Move `count` rows, starting at row `from`, so that they start at
+ * row `to`. Returns false, without changing the transaction, when the
+ * rows can't be moved there because that would cut through cells
+ * spanning multiple rows.
+ *
+ * @public
+ */
+export function moveTableRow(
+  tr: Transaction,
+  { map, table, tableStart }: TableRect,
+  options: MoveTableLineOptions,
+): boolean {
+  const order = lineOrder(
+    map.height,
+    (row) => isRowBoundary(map, row),
+    options,
+  );
+  if (!order) return false;
+  const rows: Node[] = [];
+  table.forEach((row, _, i) => (rows[order[i]] = row));
+  tr.replaceWith(tableStart, tableStart + table.content.size, rows);
+  return true;
+}
+
+/**
+ * Move `count` columns, starting at column `from`, so that they start
+ * at column `to`. Returns false, without changing the transaction,
+ * when the columns can't be moved there because that would cut
+ * through cells spanning multiple columns.
+ *
+ * @public
+ */
+export function moveTableColumn(
+  tr: Transaction,
+  { map, table, tableStart }: TableRect,
+  options: MoveTableLineOptions,
+): boolean {
+  const order = lineOrder(
+    map.width,
+    (col) => isColumnBoundary(map, col),
+    options,
+  );
+  if (!order) return false;
+  const rows: Node[] = [];
+  for (let row = 0; row < map.height; row++) {
+    const cells: { col: number; cell: Node }[] = [];
+    for (
+      let col = 0, index = row * map.width;
+      col < map.width;
+      col++, index++
+    ) {
+      const pos = map.map[index];
+      // Only look at the slot in which a cell starts
+      if (row > 0 && map.map[index - map.width] == pos) continue;
+      if (col > 0 && map.map[index - 1] == pos) continue;
+      cells.push({ col: order[col], cell: table.nodeAt(pos)! });
+    }
+    cells.sort((a, b) => a.col - b.col);
+    rows.push(
+      table.child(row).copy(Fragment.from(cells.map(({ cell }) => cell))),
+    );
+  }
+  tr.replaceWith(tableStart, tableStart + table.content.size, rows);
+  return true;
+}
+
+// After reordering rows or columns, put the selection back on the cells
+// it covered, using `moveSlot` to find their new place in the table.
+function restoreSelection(
+  state: EditorState,
+  tr: Transaction,
+  { map, tableStart }: TableRect,
+  moveSlot: (row: number, col: number) => number,
+): void {
+  const table = tableStart ? tr.doc.nodeAt(tableStart - 1) : tr.doc;
+  if (!table) {
+    throw RangeError('No table found');
+  }
+  const newMap = TableMap.get(table);
+  const cellPos = (pos: number) => {
+    const { top, left } = map.findCell(pos - tableStart);
+    return tableStart + newMap.map[moveSlot(top, left)];
+  };
+  const sel = state.selection;
+  if (sel instanceof CellSelection) {
+    const $anchorCell = tr.doc.resolve(cellPos(sel.$anchorCell.pos));
+    const $headCell = tr.doc.resolve(cellPos(sel.$headCell.pos));
+    tr.setSelection(
+      sel.isRowSelection()
+        ? CellSelection.rowSelection($anchorCell, $headCell)
+        : sel.isColSelection()
+        ? CellSelection.colSelection($anchorCell, $headCell)
+        : new CellSelection($anchorCell, $headCell),
+    );
+  } else {
+    const $cell = selectionCell(state);
+    const offset = cellPos($cell.pos) - $cell.pos;
+    const cellEnd = $cell.pos + $cell.nodeAfter!.nodeSize;
+    if (sel.from > $cell.pos && sel.to < cellEnd)
+      tr.setSelection(
+        TextSelection.create(tr.doc, sel.anchor + offset, sel.head + offset),
+      );
+    else
+      tr.setSelection(Selection.near(tr.doc.resolve($cell.pos + offset + 1)));
+  }
+}
+
+/**
+ * Returns a command that moves the rows covered by the selection one
+ * row up (direction=-1) or down (direction=1). Merged cells next to
+ * the selected rows are skipped over as a whole.
+ *
+ * @public
+ */
+export function moveSelectedRows(direction: Direction): Command {
+  return (state, dispatch) => {
+    if (!isInTable(state)) return false;
+    const { map, top, bottom } = selectedRect(state);
+    let to = -1;
+    if (direction < 0) {
+      for (let row = top - 1; row >= 0 && to < 0; row--)
+        if (isRowBoundary(map, row)) to = row;
+    } else {
+      for (let row = bottom + 1; row <= map.height && to < 0; row++)
+        if (isRowBoundary(map, row)) to = top + row - bottom;
+    }
+    if (to < 0) return false;
+    return moveSelectedRowsTo(to)(state, dispatch);
+  };
+}
+
+/**
+ * Returns a command that moves the rows covered by the selection so
+ * that the first of them ends up at row index `to` (counted as if the
+ * moved rows had been taken out of the table). The selection is kept
+ * on the moved cells.
+ *
+ * @public
+ */
+export function moveSelectedRowsTo(to: number): Command {
+  return (state, dispatch) => {
+    if (!isInTable(state)) return false;
+    const rect = selectedRect(state);
+    const { map, top, bottom } = rect;
+    const tr = state.tr;
+    const options = { from: top, to, count: bottom - top };
+    if (!moveTableRow(tr, rect, options)) return false;
+    if (dispatch) {
+      const order = lineOrder(map.height, () => true, options)!;
+      restoreSelection(
+        state,
+        tr,
+        rect,
+        (row, col) => order[row] * map.width + col,
+      );
+      dispatch(tr.scrollIntoView());
+    }
+    return true;
+  };
+}
+
+/**
+ * Returns a command that moves the columns covered by the selection
+ * one column to the left (direction=-1) or right (direction=1). Merged
+ * cells next to the selected columns are skipped over as a whole.
+ *
+ * @public
+ */
+export function moveSelectedColumns(direction: Direction): Command {
+  return (state, dispatch) => {
+    if (!isInTable(state)) return false;
+    const { map, left, right } = selectedRect(state);
+    let to = -1;
+    if (direction < 0) {
+      for (let col = left - 1; col >= 0 && to < 0; col--)
+        if (isColumnBoundary(map, col)) to = col;
+    } else {
+      for (let col = right + 1; col <= map.width && to < 0; col++)
+        if (isColumnBoundary(map, col)) to = left + col - right;
+    }
+    if (to < 0) return false;
+    return moveSelectedColumnsTo(to)(state, dispatch);
+  };
+}
+
+/**
+ * Returns a command that moves the columns covered by the selection
+ * so that the first of them ends up at column index `to`. See
+ * [`moveSelectedRowsTo`](#moveSelectedRowsTo).
+ *
+ * @public
+ */
+export function moveSelectedColumnsTo(to: number): Command {
+  return (state, dispatch) => {
+    if (!isInTable(state)) return false;
+    const rect = selectedRect(state);
+    const { map, left, right } = rect;
+    const tr = state.tr;
+    const options = { from: left, to, count: right - left };
+    if (!moveTableColumn(tr, rect, options)) return false;
+    if (dispatch) {
+      const order = lineOrder(map.width, () => true, options)!;
+      restoreSelection(
+        state,
+        tr,
+        rect,
+        (row, col) => row * map.width + order[col],
+      );
+      dispatch(tr.scrollIntoView());
+    }
+    return true;
+  };
+}
+
+/**
+ * A function that compares the text content of two cells, returning a
+ * negative number, zero, or a positive number, like the callbacks
+ * passed to `Array.prototype.sort`.
+ *
+ * @public
+ */
+export type CellTextCompare = (a: string, b: string) => number;
+
+/**
+ * @public
+ */
+export interface SortTableOptions {
+  /**
+   * The sort order. Defaults to `"asc"`.
+   */
+  direction?: 'asc' | 'desc';
+  /**
+   * How to compare the cell contents. `"number"` compares the
+   * numeric value of the cells, `"date"` the dates they contain, and
+   * `"string"` (the default) their text using locale-aware collation.
+   * Cells that don't hold a number or date are sorted after the
+   * others in both directions. A custom comparison function may also
+   * be given.
+   */
+  compare?: 'string' | 'number' | 'date' | CellTextCompare;
+  /**
+   * When true (the default), header rows at the top of the table (as
+   * detected by [`rowIsHeader`](#rowIsHeader)) keep their place.
+   */
+  skipHeaderRows?: boolean;
+}
+
+const collator = new Intl.Collator(undefined, { numeric: true });
+
+// The built-in comparisons, given the sign of the sort direction.
+const comparators: Record<
+  'string' | 'number' | 'date',
+  (sign: number) => CellTextCompare
+> = {
+  string: (sign) => (a, b) => sign * collator.compare(a, b),
+  number: (sign) => (a, b) =>
+    compareValues(parseNumber(a), parseNumber(b), sign),
+  date: (sign) => (a, b) => compareValues(Date.parse(a), Date.parse(b), sign),
+};
+
+const numberPattern = /^[+-]?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?$/i;
+
+// Read a number from a cell's text, ignoring whitespace, thousands
+// separators, and symbols such as currency and percent signs. Returns
+// NaN when what remains isn't a number.
+function parseNumber(text: string): number {
+  const value = text.replace(/[^\w.+-]/g, '');
+  return numberPattern.test(value) ? Number(value) : NaN;
+}
+
+// Compare two numbers in the direction given by `sign`, ordering
+// values that couldn't be parsed after all others in either direction.
+function compareValues(a: number, b: number, sign: number): number {
+  if (isNaN(a) || isNaN(b)) return (isNaN(a) ? 1 : 0) - (isNaN(b) ? 1 : 0);
+  return sign * (a - b);
+}
+
+/**
+ * Returns a command that sorts the rows of the table around the
+ * selection by the text content of their cells in column `col`. Rows
+ * that are tied together by cells spanning multiple rows are moved as
+ * a group. Empty cells are always sorted to the bottom.
+ *
+ * @public
+ */
+export function sortTableByColumn(
+  col: number,
+  {
+    direction = 'asc',
+    compare = 'string',
+    skipHeaderRows = true,
+  }: SortTableOptions = {},
+): Command {
+  return (state, dispatch) => {
+    if (!isInTable(state)) return false;
+    const rect = selectedRect(state);
+    const { map, table, tableStart } = rect;
+    if (col < 0 || col >= map.width) return false;
+
+    let first = 0;
+    if (skipHeaderRows)
+      while (first < map.height && rowIsHeader(map, table, first)) first++;
+    while (!isRowBoundary(map, first)) first++;
+
+    const groups: { start: number; end: number; text: string }[] = [];
+    for (let row = first, end; row < map.height; row = end) {
+      end = row + 1;
+      while (!isRowBoundary(map, end)) end++;
+      const cell = table.nodeAt(map.map[row * map.width + col])!;
+      groups.push({ start: row, end, text: cell.textContent.trim() });
+    }
+    const sign = direction == 'desc' ? -1 : 1;
+    const cmp: CellTextCompare =
+      typeof compare == 'function'
+        ? (a, b) => sign * compare(a, b)
+        : comparators[compare](sign);
+    groups.sort((a, b) => {
+      if (!a.text || !b.text) return (a.text ? 0 : 1) - (b.text ? 0 : 1);
+      return cmp(a.text, b.text);
+    });
+
+    const order: number[] = [];
+    let index = 0;
+    for (; index < first; index++) order[index] = index;
+    for (const { start, end } of groups)
+      for (let row = start; row < end; row++) order[row] = index++;
+    if (order.every((index, row) => index == row)) return false;
+
+    if (dispatch) {
+      const rows: Node[] = [];
+      table.forEach((row, _, i) => (rows[order[i]] = row));
+      const tr = state.tr;
+      tr.replaceWith(tableStart, tableStart + table.content.size, rows);
+      restoreSelection(
+        state,
+        tr,
+        rect,
+        (row, col) => order[row] * map.width + col,
+      );
+      dispatch(tr);
+    }
+    return true;
+  };
+}
+
 function isEmpty(cell: Node): boolean {
   const c = cell.content;
 
@@ -330,56 +708,77 @@ export function mergeCells(
   dispatch?: (tr: Transaction) => void,
 ): boolean {
   const sel = state.selection;
-  // 셀 선택 확인
   if (
     !(sel instanceof CellSelection) ||
-    sel.$anchorCell.pos === sel.$headCell.pos
-  ) {
+    sel.$anchorCell.pos == sel.$headCell.pos
+  )
     return false;
-  }
-
+  const rect = selectedRect(state),
+    { map } = rect;
+  if (cellsOverlapRectangle(map, rect)) return false;
   if (dispatch) {
-    const rect = selectedRect(state);
     const tr = state.tr;
+    const seen: Record<number, boolean> = {};
     let content = Fragment.empty;
-    let firstCellPos: number | undefined;
-
-    // 선택된 모든 셀의 내용을 모읍니다.
+    let mergedPos: number | undefined;
+    let mergedCell: Node | undefined;
     for (let row = rect.top; row < rect.bottom; row++) {
       for (let col = rect.left; col < rect.right; col++) {
-        const cellPos = rect.map.map[row * rect.map.width + col];
+        const cellPos = map.map[row * map.width + col];
         const cell = rect.table.nodeAt(cellPos);
-        if (!cell) continue;
-
-        if (firstCellPos === undefined) {
-          firstCellPos = cellPos; // 첫 번째 셀 위치 저장
+        if (seen[cellPos] || !cell) continue;
+        seen[cellPos] = true;
+        if (mergedPos == null) {
+          mergedPos = cellPos;
+          mergedCell = cell;
         } else {
-          content = content.append(cell.content); // 내용 추가
-          tr.delete(
-            cellPos + rect.tableStart,
-            cellPos + rect.tableStart + cell.nodeSize,
-          ); // 나머지 셀 삭제
+          if (!isEmpty(cell)) content = content.append(cell.content);
+          const mapped = tr.mapping.map(cellPos + rect.tableStart);
+          tr.delete(mapped, mapped + cell.nodeSize);
         }
       }
     }
-
-    // 첫 번째 셀에 모든 내용을 삽입합니다.
-    if (firstCellPos !== undefined) {
-      tr.replaceWith(
-        firstCellPos + rect.tableStart,
-        firstCellPos + rect.tableStart + 1,
-        content,
-      );
-      tr.setSelection(
-        new CellSelection(tr.doc.resolve(firstCellPos + rect.tableStart)),
-      );
+    if (mergedPos == null || mergedCell == null) {
+      return true;
     }
 
+    tr.setNodeMarkup(mergedPos + rect.tableStart, null, {
+      ...addColSpan(
+        mergedCell.attrs as CellAttrs,
+        mergedCell.attrs.colspan,
+        rect.right - rect.left - mergedCell.attrs.colspan,
+      ),
+      rowspan: rect.bottom - rect.top,
+    });
+    if (content.size) {
+      const end = mergedPos + 1 + mergedCell.content.size;
+      const start = isEmpty(mergedCell) ? mergedPos + 1 : end;
+      tr.replaceWith(start + rect.tableStart, end + rect.tableStart, content);
+    }
+    tr.setSelection(
+      new CellSelection(tr.doc.resolve(mergedPos + rect.tableStart)),
+    );
     dispatch(tr);
   }
   return true;
 }
 
+/**
+ * Split a selected cell, whose rowpan or colspan is greater than one,
+ * into smaller cells. Use the first cell type for the new cells.
+ *
+ * @public
+ */
+export function splitCell(
+  state: EditorState,
+  dispatch?: (tr: Transaction) => void,
+): boolean {
+  const nodeTypes = tableNodeTypes(state.schema);
+  return splitCellWithType(({ node }) => {
+    return nodeTypes[node.type.spec.tableRole as TableRole];
+  })(state, dispatch);
+}
+
 /**
  * @public
  */
@@ -389,6 +788,81 @@ export interface GetCellTypeOptions {
   col: number;
 }
 
+/**
+ * Split a selected cell, whose rowpan or colspan is greater than one,
+ * into smaller cells with the cell type (th, td) returned by getType function.
+ *
+ * @public
+ */
+export function splitCellWithType(
+  getCellType: (options: GetCellTypeOptions) => NodeType,
+): Command {
+  return (state, dispatch) => {
+    const sel = state.selection;
+    let cellNode: Node | null | undefined;
+    let cellPos: number | undefined;
+    if (!(sel instanceof CellSelection)) {
+      cellNode = cellWrapping(sel.$from);
+      if (!cellNode) return false;
+      cellPos = cellAround(sel.$from)?.pos;
+    } else {
+      if (sel.$anchorCell.pos != sel.$headCell.pos) return false;
+      cellNode = sel.$anchorCell.nodeAfter;
+      cellPos = sel.$anchorCell.pos;
+    }
+    if (cellNode == null || cellPos == null) {
+      return false;
+    }
+    if (cellNode.attrs.colspan == 1 && cellNode.attrs.rowspan == 1) {
+      return false;
+    }
+    if (dispatch) {
+      let baseAttrs = cellNode.attrs;
+      const attrs = [];
+      const colwidth = baseAttrs.colwidth;
+      if (baseAttrs.rowspan > 1) baseAttrs = { ...baseAttrs, rowspan: 1 };
+      if (baseAttrs.colspan > 1) baseAttrs = { ...baseAttrs, colspan: 1 };
+      const rect = selectedRect(state),
+        tr = state.tr;
+      for (let i = 0; i < rect.right - rect.left; i++)
+        attrs.push(
+          colwidth
+            ? {
+                ...baseAttrs,
+                colwidth: colwidth && colwidth[i] ? [colwidth[i]] : null,
+              }
+            : baseAttrs,
+        );
+      let lastCell;
+      for (let row = rect.top; row < rect.bottom; row++) {
+        let pos = rect.map.positionAt(row, rect.left, rect.table);
+        if (row == rect.top) pos += cellNode.nodeSize;
+        for (let col = rect.left, i = 0; col < rect.right; col++, i++) {
+          if (col == rect.left && row == rect.top) continue;
+          tr.insert(
+            (lastCell = tr.mapping.map(pos + rect.tableStart, 1)),
+            getCellType({ node: cellNode, row, col }).createAndFill(attrs[i])!,
+          );
+        }
+      }
+      tr.setNodeMarkup(
+        cellPos,
+        getCellType({ node: cellNode, row: rect.top, col: rect.left }),
+        attrs[0],
+      );
+      if (sel instanceof CellSelection)
+        tr.setSelection(
+          new CellSelection(
+            tr.doc.resolve(sel.$anchorCell.pos),
+            lastCell ? tr.doc.resolve(lastCell) : undefined,
+          ),
+        );
+      dispatch(tr);
+    }
+    return true;
+  };
+}
+
 /**
  * Returns a command that sets the given attribute to the given value,
  * and is only available when the currently selected cell doesn't
@@ -422,6 +896,242 @@ export function setCellAttr(name: string, value: unknown): Command {
   };
 }
 
+// Call `f` for each cell in the selection: the cells in a cell
+// selection, or the cell around the selection otherwise.
+function forEachSelectedCell(
+  state: EditorState,
+  f: (node: Node, pos: number) => void,
+): void {
+  if (state.selection instanceof CellSelection) {
+    state.selection.forEachCell(f);
+  } else {
+    const $cell = selectionCell(state);
+    f($cell.nodeAfter!, $cell.pos);
+  }
+}
+
+// Set an attribute on all selected cells. Unlike setCellAttr, this
+// is available whenever any of the cells has a different value.
+function setSelectedCellsAttr(name: string, value: unknown): Command {
+  return function (state, dispatch) {
+    if (!isInTable(state)) return false;
+    const cells: { node: Node; pos: number }[] = [];
+    forEachSelectedCell(state, (node, pos) => {
+      if (name in (node.type.spec.attrs || {}) && node.attrs[name] !== value)
+        cells.push({ node, pos });
+    });
+    if (!cells.length) return false;
+    if (dispatch) {
+      const tr = state.tr;
+      for (const { node, pos } of cells)
+        tr.setNodeMarkup(pos, null, { ...node.attrs, [name]: value });
+      dispatch(tr);
+    }
+    return true;
+  };
+}
+
+/**
+ * Returns a command that sets the horizontal alignment of the content
+ * of all selected cells, or clears it when given null. It is
+ * available when any of the cells has a different alignment.
+ *
+ * @public
+ */
+export function setCellAlignment(alignment: CellAlignment | null): Command {
+  return setSelectedCellsAttr('alignment', alignment);
+}
+
+/**
+ * Returns a command that sets the vertical alignment of the content of
+ * all selected cells, or clears it when given null.
+ *
+ * @public
+ */
+export function setCellVerticalAlign(
+  verticalAlign: CellVerticalAlign | null,
+): Command {
+  return setSelectedCellsAttr('verticalAlign', verticalAlign);
+}
+
+/**
+ * Returns a command that sets the background color of all selected
+ * cells to the given CSS color, or clears it when given null. Fails
+ * for values holding characters, such as `;` or quotes, that would
+ * break out of the cell's `style` attribute.
+ *
+ * @public
+ */
+export function setCellBackground(color: string | null): Command {
+  if (color != null && !isSafeStyleValue(color)) return () => false;
+  return setSelectedCellsAttr('background', color);
+}
+
+/**
+ * The state of a cell attribute across the selected cells. When the
+ * cells disagree, `mixed` is true and `value` is null.
+ *
+ * @public
+ */
+export type CellAttrState = { value: unknown; mixed: boolean };
+
+/**
+ * Get the value of the given attribute in the selected cells, so that
+ * a toolbar can show it. Returns null when the selection isn't in a
+ * table.
+ *
+ * @public
+ */
+export function cellAttrState(
+  state: EditorState,
+  name: string,
+): CellAttrState | null {
+  if (!isInTable(state)) return null;
+  let result: CellAttrState | null = null;
+  forEachSelectedCell(state, (node) => {
+    const value = node.attrs[name] ?? null;
+    if (!result) result = { value, mixed: false };
+    else if (!result.mixed && result.value !== value)
+      result = { value: null, mixed: true };
+  });
+  return result;
+}
+
+function fillCells(axis: 'down' | 'right'): Command {
+  return function (state, dispatch) {
+    const sel = state.selection;
+    if (!(sel instanceof CellSelection)) return false;
+    const { map, table, tableStart, top, left } = selectedRect(state);
+    const targets: { node: Node; pos: number; source: Node }[] = [];
+    sel.forEachCell((node, pos) => {
+      const rect = map.findCell(pos - tableStart);
+      if (axis == 'down' ? rect.top == top : rect.left == left) return;
+      const source = table.nodeAt(
+        map.map[
+          axis == 'down'
+            ? top * map.width + rect.left
+            : rect.top * map.width + left
+        ],
+      )!;
+      if (!node.content.eq(source.content)) targets.push({ node, pos, source });
+    });
+    if (!targets.length) return false;
+    if (dispatch) {
+      const tr = state.tr;
+      for (const { node, pos, source } of targets)
+        tr.replace(
+          tr.mapping.map(pos + 1),
+          tr.mapping.map(pos + node.nodeSize - 1),
+          new Slice(source.content, 0, 0),
+        );
+      dispatch(tr);
+    }
+    return true;
+  };
+}
+
+/**
+ * Copies the content of the cells in the top row of a cell selection
+ * into the cells below them. The attributes of the filled cells are
+ * left alone. Fails when no cell's content would change.
+ *
+ * @public
+ */
+export const fillDown: Command = fillCells('down');
+
+/**
+ * Copies the content of the cells in the leftmost column of a cell
+ * selection into the cells to their right.
+ *
+ * @public
+ */
+export const fillRight: Command = fillCells('right');
+
+// Create a cell with the attributes of `seed` that holds the given
+// text in a textblock like the seed's first one.
+function seriesCell(seed: Node, text: string, keepWidth: boolean): Node {
+  const attrs: CellAttrs = {
+    ...(seed.attrs as CellAttrs),
+    colspan: 1,
+    rowspan: 1,
+    colwidth: null,
+  };
+  if (keepWidth && seed.attrs.colspan == 1)
+    attrs.colwidth = seed.attrs.colwidth;
+  const block = seed.firstChild;
+  const content =
+    block && block.isTextblock
+      ? block.type.create(
+          block.attrs,
+          text ? seed.type.schema.text(text, block.firstChild?.marks) : null,
+        )
+      : null;
+  return (
+    (content && seed.type.createAndFill(attrs, content)) ||
+    seed.type.createAndFill(attrs)!
+  );
+}
+
+/**
+ * Returns a command that fills the `count` cells below (axis `"down"`)
+ * or to the right of the selected cells, continuing the series of
+ * values found in each selected column or row (see
+ * [`detectSeries`](#detectSeries)). The table is grown when the fill
+ * runs past its end. Afterwards, the selection covers both the
+ * original and the filled cells.
+ *
+ * @public
+ */
+export function fillSeries(axis: 'down' | 'right', count: number): Command {
+  return (state, dispatch) => {
+    if (!isInTable(state) || count < 1) return false;
+    const { map, table, tableStart, top, left, right, bottom } =
+      selectedRect(state);
+    const down = axis == 'down';
+    const lines = down ? right - left : bottom - top;
+    const seedCount = down ? bottom - top : right - left;
+    const rows: Node[][] = [];
+    for (let i = 0, height = down ? count : lines; i < height; i++)
+      rows.push([]);
+    for (let line = 0; line < lines; line++) {
+      const seeds: Node[] = [];
+      for (let i = 0; i < seedCount; i++) {
+        const row = down ? top + i : top + line,
+          col = down ? left + line : left + i;
+        seeds.push(table.nodeAt(map.map[row * map.width + col])!);
+      }
+      const series = detectSeries(seeds.map((cell) => cell.textContent));
+      const last = seeds[seeds.length - 1];
+      for (let i = 0; i < count; i++) {
+        const cell = seriesCell(last, series(seedCount + i), down);
+        if (down) rows[i][line] = cell;
+        else rows[line][i] = cell;
+      }
+    }
+    if (dispatch) {
+      const anchor = tableStart + map.map[top * map.width + left];
+      insertCells(
+        state,
+        (tr) => {
+          const { $headCell } = tr.selection as CellSelection;
+          const $anchorCell = tr.doc.resolve(tr.mapping.map(anchor));
+          dispatch(tr.setSelection(new CellSelection($anchorCell, $headCell)));
+        },
+        tableStart,
+        down
+          ? { left, right, top: bottom, bottom: bottom + count }
+          : { left: right, right: right + count, top, bottom },
+        {
+          width: down ? lines : count,
+          height: rows.length,
+          rows: rows.map((cells) => Fragment.from(cells)),
+        },
+      );
+    }
+    return true;
+  };
+}
+
 function deprecated_toggleHeader(type: ToggleHeaderType): Command {
   return function (state, dispatch) {
     if (!isInTable(state)) return false;
@@ -664,6 +1374,64 @@ export function goToNextCell(direction: Direction): Command {
   };
 }
 
+// Find the depth of the innermost table around the selection's anchor,
+// or -1 when the selection isn't in a table.
+function tableDepth(state: EditorState): number {
+  const $pos = state.selection.$anchor;
+  for (let d = $pos.depth; d > 0; d--)
+    if ($pos.node(d).type.spec.tableRole == 'table') return d;
+  return -1;
+}
+
+/**
+ * Returns a command that sets the given attribute of the table around
+ * the selection to the given value, and is only available when the
+ * table has such an attribute and it isn't already set to that value.
+ *
+ * @public
+ */
+export function setTableAttr(name: string, value: unknown): Command {
+  return function (state, dispatch) {
+    const depth = tableDepth(state);
+    if (depth < 0) return false;
+    const $pos = state.selection.$anchor,
+      table = $pos.node(depth);
+    if (!(name in (table.type.spec.attrs || {})) || table.attrs[name] === value)
+      return false;
+    if (dispatch)
+      dispatch(
+        state.tr.setNodeMarkup($pos.before(depth), null, {
+          ...table.attrs,
+          [name]: value,
+        }),
+      );
+    return true;
+  };
+}
+
+/**
+ * Returns a command that removes the caption of the table around the
+ * selection or, when the table doesn't have one, gives it the given
+ * caption text. Captions aren't part of the table's content, so they
+ * can't be edited in place. Use
+ * [`setTableAttr`](#setTableAttr)`('caption', text)` to change the
+ * text of an existing caption.
+ *
+ * @public
+ */
+export function toggleTableCaption(caption: string): Command {
+  return (state, dispatch) => {
+    const depth = tableDepth(state);
+    if (depth < 0) return false;
+    const table = state.selection.$anchor.node(depth);
+    if (table.attrs.caption == null && !caption) return false;
+    return setTableAttr(
+      'caption',
+      table.attrs.caption == null ? caption : null,
+    )(state, dispatch);
+  };
+}
+
 /**
  * Deletes the table around the selection, if any.
  *
@@ -686,3 +1454,196 @@ export function deleteTable(
   }
   return false;
 }
+
+/**
+ * @public
+ */
+export interface InsertTableOptions {
+  /**
+   * The number of rows in the new table. Defaults to 3.
+   */
+  rows?: number;
+  /**
+   * The number of columns in the new table. Defaults to 3.
+   */
+  cols?: number;
+  /**
+   * When true, the first row is made of header cells. Defaults to
+   * false.
+   */
+  withHeaderRow?: boolean;
+  /**
+   * The content to put in the new cells, or a function that returns
+   * the content for the cell at a given row and column. Cells are
+   * left empty when not given.
+   */
+  cellContent?:
+    | Fragment
+    | Node
+    | readonly Node[]
+    | ((row: number, col: number) => Fragment | Node | readonly Node[] | null);
+}
+
+/**
+ * Returns a command that inserts a new table at the selection,
+ * splitting the textblock the selection is in when the table can't be
+ * inserted next to it. The cursor is put in the table's first cell.
+ *
+ * @public
+ */
+export function insertTable({
+  rows = 3,
+  cols = 3,
+  withHeaderRow = false,
+  cellContent,
+}: InsertTableOptions = {}): Command {
+  return (state, dispatch) => {
+    const types = tableNodeTypes(state.schema);
+    if (!types.table || rows < 1 || cols < 1) return false;
+    const tr = state.tr;
+    if (!state.selection.empty) tr.deleteSelection();
+    const { $from } = tr.selection;
+    let pos = insertPoint(tr.doc, $from.pos, types.table);
+    if (pos == null) {
+      if (!$from.parent.isTextblock || !canSplit(tr.doc, $from.pos))
+        return false;
+      tr.split($from.pos);
+      pos = insertPoint(tr.doc, $from.pos + 1, types.table);
+      if (pos == null) return false;
+    }
+    if (dispatch) {
+      const tableRows: Node[] = [];
+      for (let row = 0; row < rows; row++) {
+        const type = withHeaderRow && row == 0 ? types.header_cell : types.cell;
+        const cells: Node[] = [];
+        for (let col = 0; col < cols; col++) {
+          const content =
+            typeof cellContent == 'function'
+              ? cellContent(row, col)
+              : cellContent;
+          cells.push(
+            (content && type.createAndFill(null, content)) ||
+              type.createAndFill()!,
+          );
+        }
+        tableRows.push(types.row.create(null, cells));
+      }
+      tr.insert(pos, types.table.create(null, tableRows));
+      tr.setSelection(Selection.near(tr.doc.resolve(pos + 3)));
+      dispatch(tr.scrollIntoView());
+    }
+    return true;
+  };
+}
+
+/**
+ * @public
+ */
+export interface TextTableOptions {
+  /**
+   * The string or regular expression that separates cells. Defaults
+   * to a tab character.
+   */
+  delimiter?: string | RegExp;
+}
+
+/**
+ * Returns a command that converts the textblocks covered by the
+ * selection into a table, with one row per textblock, splitting their
+ * text into cells at each delimiter. Rows with fewer cells are padded
+ * with empty cells.
+ *
+ * @public
+ */
+export function textToTable({
+  delimiter = '\t',
+}: TextTableOptions = {}): Command {
+  return (state, dispatch) => {
+    const types = tableNodeTypes(state.schema);
+    const { $from, $to } = state.selection;
+    const range = $from.blockRange($to);
+    if (!types.table || !range) return false;
+    const blocks: Node[] = [];
+    for (let i = range.startIndex; i < range.endIndex; i++)
+      blocks.push(range.parent.child(i));
+    if (
+      !blocks.every((block) => block.isTextblock) ||
+      !range.parent.canReplaceWith(
+        range.startIndex,
+        range.endIndex,
+        types.table,
+      )
+    )
+      return false;
+    if (dispatch) {
+      const lines = blocks.map((block) => block.textContent.split(delimiter));
+      const width = Math.max(...lines.map((line) => line.length));
+      const rows = lines.map((line, i) => {
+        const cells: Node[] = [];
+        for (let col = 0; col < width; col++) {
+          const text = line[col];
+          cells.push(
+            (text &&
+              types.cell.createAndFill(
+                null,
+                blocks[i].type.create(blocks[i].attrs, state.schema.text(text)),
+              )) ||
+              types.cell.createAndFill()!,
+          );
+        }
+        return types.row.create(null, cells);
+      });
+      const tr = state.tr.replaceWith(
+        range.start,
+        range.end,
+        types.table.create(null, rows),
+      );
+      tr.setSelection(Selection.near(tr.doc.resolve(range.start + 3)));
+      dispatch(tr.scrollIntoView());
+    }
+    return true;
+  };
+}
+
+/**
+ * Returns a command that replaces the table around the selection with
+ * one textblock per row, holding the text of the row's cells joined
+ * by the delimiter (which must be a string here). Slots covered by a
+ * spanning cell that starts elsewhere produce empty fields, so that
+ * the fields stay aligned with the table's columns.
+ *
+ * @public
+ */
+export function tableToText({
+  delimiter = '\t',
+}: TextTableOptions = {}): Command {
+  return (state, dispatch) => {
+    if (typeof delimiter != 'string') return false;
+    const $pos = state.selection.$anchor;
+    for (let d = $pos.depth; d > 0; d--) {
+      const table = $pos.node(d);
+      if (table.type.spec.tableRole != 'table') continue;
+      const parent = $pos.node(d - 1),
+        index = $pos.index(d - 1);
+      const type = parent.contentMatchAt(index).defaultType;
+      if (
+        !type ||
+        !type.isTextblock ||
+        !parent.canReplaceWith(index, index + 1, type)
+      )
+        return false;
+      if (dispatch) {
+        const blocks = tableFields(table).map((fields) => {
+          const text = fields.join(delimiter);
+          return type.create(null, text ? state.schema.text(text) : null);
+        });
+        const start = $pos.before(d);
+        const tr = state.tr.replaceWith(start, $pos.after(d), blocks);
+        tr.setSelection(Selection.near(tr.doc.resolve(start + 1)));
+        dispatch(tr.scrollIntoView());
+      }
+      return true;
+    }
+    return false;
+  };
+}
@@ -10,13 +10,28 @@
 // clipped to the selection's rectangle, optionally repeating the
 // pasted cells when they are smaller than the selection.
 
-import { Fragment, Node, NodeType, Schema, Slice } from 'prosemirror-model';
+import {
+  DOMSerializer,
+  Fragment,
+  Node,
+  NodeType,
+  Schema,
+  Slice,
+} from 'prosemirror-model';
 import { Transform } from 'prosemirror-transform';
 
-import { EditorState, Transaction } from 'prosemirror-state';
+import { Command, EditorState, Transaction } from 'prosemirror-state';
+import { addColumnFrom, addRow } from './addlines';
 import { CellSelection } from './cellselection';
 import { tableNodeTypes } from './schema';
 import { Rect, TableMap } from './tablemap';
+import {
+  CellAttrs,
+  isInTable,
+  removeColSpan,
+  selectionCell,
+  tableFields,
+} from './util';
 
 /**
  * @internal
@@ -74,24 +89,222 @@ export function pastedCells(slice: Slice): Area | null {
   return ensureRectangular(schema, rows);
 }
 
-function ensureRectangular(schema: Schema, rows: Fragment[]): Area {
-  let maxWidth = 0;
-  rows.forEach((row) => {
-    maxWidth = Math.max(maxWidth, row.childCount);
-  });
-
-  rows.forEach((row, rowIndex) => {
-    const shortfall = maxWidth - row.childCount;
-    if (shortfall > 0) {
-      const emptyCells = Array.from(
-        { length: shortfall },
-        () => tableNodeTypes(schema).cell.createAndFill()!,
-      );
-      rows[rowIndex] = row.append(Fragment.from(emptyCells));
+/**
+ * Get the table from a slice that holds a single, whole table node, or
+ * null if the slice contains anything else.
+ *
+ * @internal
+ */
+export function pastedTable(slice: Slice): Node | null {
+  let { content, openStart, openEnd } = slice;
+  while (
+    content.childCount == 1 &&
+    openStart > 0 &&
+    openEnd > 0 &&
+    content.child(0).type.spec.tableRole != 'table'
+  ) {
+    openStart--;
+    openEnd--;
+    content = content.child(0).content;
+  }
+  if (content.childCount != 1 || openStart || openEnd) return null;
+  const table = content.child(0);
+  return table.type.spec.tableRole == 'table' ? table : null;
+}
+
+/**
+ * Split delimited plain text, as put on the clipboard by spreadsheets,
+ * into rows of fields. Fields may be quoted as described in RFC 4180,
+ * in which case they can contain delimiters, line breaks, and doubled
+ * quote characters.
+ *
+ * @internal
+ */
+export function parseDelimitedText(text: string, delimiter = '\t'): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [],
+    field = '',
+    quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch != '"') field += ch;
+      else if (text[i + 1] == '"') field += text[i++];
+      else quoted = false;
+    } else if (ch == '"' && !field) {
+      quoted = true;
+    } else if (text.startsWith(delimiter, i)) {
+      row.push(field);
+      field = '';
+      i += delimiter.length - 1;
+    } else if (ch == '\n' || ch == '\r') {
+      if (ch == '\r' && text[i + 1] == '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
     }
-  });
+  }
+  // A line break at the end of the text doesn't start a new row.
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+/**
+ * Get a rectangular area of cells from delimited plain text, or null
+ * if the text describes only a single cell. Line breaks inside a
+ * (quoted) field become separate textblocks in its cell.
+ *
+ * @internal
+ */
+export function textCells(
+  schema: Schema,
+  text: string,
+  delimiter = '\t',
+): Area | null {
+  const fields = parseDelimitedText(text, delimiter);
+  if (!fields.length || (fields.length == 1 && fields[0].length == 1))
+    return null;
+  const types = tableNodeTypes(schema);
+  const block = types.cell.contentMatch.defaultType;
+  const empty = types.cell.createAndFill()!;
+  const rows = fields.map((line) =>
+    Fragment.from(
+      line.map(
+        (field) =>
+          (field &&
+            block &&
+            types.cell.createAndFill(
+              null,
+              field
+                .split(/\r?\n/)
+                .map((text) =>
+                  block.create(null, text ? schema.text(text) : null),
+                ),
+            )) ||
+          empty,
+      ),
+    ),
+  );
+  return ensureRectangular(schema, rows);
+}
+
+/**
+ * Serialize the cells in a slice as tab-separated text, one line per
+ * row, with the content of each cell flattened to a single line.
+ * Fields containing tabs, line breaks, or quotes are quoted as
+ * described in RFC 4180. Returns an empty string when the slice
+ * doesn't consist of cells.
+ *
+ * @internal
+ */
+export function cellsToText(slice: Slice): string {
+  const table = cellsTable(slice);
+  if (!table) return '';
+  return tableFields(table)
+    .map((fields) => fields.map((field) => quoteField(field)).join('\t'))
+    .join('\n');
+}
+
+// Build a table node holding the cells in a slice, if it has any.
+function cellsTable(slice: Slice): Node | null {
+  const cells = pastedCells(slice);
+  return cells && areaTable(cells);
+}
+
+// Build a table node holding the cells of an area.
+function areaTable({ rows }: Area): Node {
+  const types = tableNodeTypes(rows[0].firstChild!.type.schema);
+  return types.table.create(
+    null,
+    rows.map((row) => types.row.create(null, row)),
+  );
+}
+
+/**
+ * Quote a field for delimited text when it contains the delimiter, a
+ * line break, or a quote character.
+ *
+ * @internal
+ */
+export function quoteField(field: string, delimiter = '\t'): string {
+  return field.includes(delimiter) || /[\n\r"]/.test(field)
+    ? '"' + field.replace(/"/g, '""') + '"'
+    : field;
+}
 
-  return { height: rows.length, width: maxWidth, rows };
+/**
+ * Create the DOM serializer used to put copied content on the
+ * clipboard. It renders tables as a bare `<table>` with a `<tbody>`
+ * and rows as `<tr>`, however the schema renders them, so that
+ * spreadsheets recognize the copied cells. Other nodes are rendered
+ * as defined in the schema.
+ *
+ * @internal
+ */
+export function clipboardSerializer(schema: Schema): DOMSerializer {
+  const nodes = DOMSerializer.nodesFromSchema(schema);
+  const types = tableNodeTypes(schema);
+  if (types.table) nodes[types.table.name] = () => ['table', ['tbody', 0]];
+  if (types.row) nodes[types.row.name] = () => ['tr', 0];
+  return new DOMSerializer(nodes, DOMSerializer.marksFromSchema(schema));
+}
+
+/**
+ * Serialize a slice of cells for the clipboard, as a plain HTML table
+ * and as tab-separated text.
+ *
+ * @internal
+ */
+export function serializeCells(
+  schema: Schema,
+  slice: Slice,
+): { html: string; text: string } {
+  const table = cellsTable(slice);
+  const wrap = document.createElement('div');
+  wrap.appendChild(
+    clipboardSerializer(schema).serializeFragment(
+      table ? Fragment.from(table) : slice.content,
+    ),
+  );
+  // Describe the table the way ProseMirror marks its own clipboard
+  // content, as open rows wrapped in a table and a body, so that
+  // pasting it back into an editor produces a range of cells rather
+  // than a whole table.
+  if (table)
+    (wrap.firstChild as HTMLElement).setAttribute('data-pm-slice', '1 1 -2 []');
+  return { html: wrap.innerHTML, text: cellsToText(slice) };
+}
+
+function ensureRectangular(schema: Schema, rows: Fragment[]): Area {
+  const widths: number[] = [];
+  for (let i = 0; i < rows.length; i++) {
+    const row = rows[i];
+    for (let j = row.childCount - 1; j >= 0; j--) {
+      const { rowspan, colspan } = row.child(j).attrs;
+      for (let r = i; r < i + rowspan; r++)
+        widths[r] = (widths[r] || 0) + colspan;
+    }
+  }
+  let width = 0;
+  for (let r = 0; r < widths.length; r++) width = Math.max(width, widths[r]);
+  for (let r = 0; r < widths.length; r++) {
+    if (r >= rows.length) rows.push(Fragment.empty);
+    if (widths[r] < width) {
+      const empty = tableNodeTypes(schema).cell.createAndFill()!;
+      const cells = [];
+      for (let i = widths[r]; i < width; i++) {
+        cells.push(empty);
+      }
+      rows[r] = rows[r].append(Fragment.from(cells));
+    }
+  }
+  return { height: rows.length, width, rows };
 }
 
 export function fitSlice(nodeType: NodeType, slice: Slice): Node {
@@ -100,34 +313,70 @@ export function fitSlice(nodeType: NodeType, slice: Slice): Node {
   return tr.doc;
 }
 
+/**
+ * Clip or extend (repeat) the given set of cells to cover the given
+ * width and height. Will clip rowspan/colspan cells at the edges when
+ * they stick out.
+ *
+ * @internal
+ */
 export function clipCells(
   { width, height, rows }: Area,
   newWidth: number,
   newHeight: number,
 ): Area {
-  const newRows = [];
-
-  for (let row = 0; row < newHeight; row++) {
-    const newRow = [];
-    const originalRow = rows[row % height];
-
-    for (let col = 0; col < newWidth; col++) {
-      if (col < originalRow.childCount) {
-        newRow.push(originalRow.child(col));
-      } else if (originalRow.childCount > 0) {
-        const lastCell = originalRow.child(originalRow.childCount - 1);
-        newRow.push(lastCell.copy(lastCell.content));
+  if (width != newWidth) {
+    const added: number[] = [];
+    const newRows: Fragment[] = [];
+    for (let row = 0; row < rows.length; row++) {
+      const frag = rows[row],
+        cells = [];
+      for (let col = added[row] || 0, i = 0; col < newWidth; i++) {
+        let cell = frag.child(i % frag.childCount);
+        if (col + cell.attrs.colspan > newWidth)
+          cell = cell.type.createChecked(
+            removeColSpan(
+              cell.attrs as CellAttrs,
+              cell.attrs.colspan,
+              col + cell.attrs.colspan - newWidth,
+            ),
+            cell.content,
+          );
+        cells.push(cell);
+        col += cell.attrs.colspan;
+        for (let j = 1; j < cell.attrs.rowspan; j++)
+          added[row + j] = (added[row + j] || 0) + cell.attrs.colspan;
       }
+      newRows.push(Fragment.from(cells));
     }
+    rows = newRows;
+    width = newWidth;
+  }
 
-    newRows.push(Fragment.from(newRow));
+  if (height != newHeight) {
+    const newRows = [];
+    for (let row = 0, i = 0; row < newHeight; row++, i++) {
+      const cells = [],
+        source = rows[i % height];
+      for (let j = 0; j < source.childCount; j++) {
+        let cell = source.child(j);
+        if (row + cell.attrs.rowspan > newHeight)
+          cell = cell.type.create(
+            {
+              ...cell.attrs,
+              rowspan: Math.max(1, newHeight - cell.attrs.rowspan),
+            },
+            cell.content,
+          );
+        cells.push(cell);
+      }
+      newRows.push(Fragment.from(cells));
+    }
+    rows = newRows;
+    height = newHeight;
   }
 
-  return {
-    width: newWidth,
-    height: newHeight,
-    rows: newRows,
-  };
+  return { width, height, rows };
 }
 
 // Make sure a table has at least the given width and height. Return
@@ -184,9 +433,96 @@ function growTable(
   return !!(empty || emptyHead);
 }
 
+// Make sure the given line (left, top) to (right, top) doesn't cross
+// any rowspan cells by splitting cells that cross it. Return true if
+// something changed.
+function isolateHorizontal(
+  tr: Transaction,
+  map: TableMap,
+  table: Node,
+  start: number,
+  left: number,
+  right: number,
+  top: number,
+  mapFrom: number,
+): boolean {
+  if (top == 0 || top == map.height) return false;
+  let found = false;
+  for (let col = left; col < right; col++) {
+    const index = top * map.width + col,
+      pos = map.map[index];
+    if (map.map[index - map.width] == pos) {
+      found = true;
+      const cell = table.nodeAt(pos)!;
+      const { top: cellTop, left: cellLeft } = map.findCell(pos);
+      tr.setNodeMarkup(tr.mapping.slice(mapFrom).map(pos + start), null, {
+        ...cell.attrs,
+        rowspan: top - cellTop,
+      });
+      tr.insert(
+        tr.mapping
+          .slice(mapFrom)
+          .map(map.positionAt(top, cellLeft, table) + start),
+        cell.type.createAndFill({
+          ...cell.attrs,
+          rowspan: cellTop + cell.attrs.rowspan - top,
+        })!,
+      );
+      col += cell.attrs.colspan - 1;
+    }
+  }
+  return found;
+}
+
+// Make sure the given line (left, top) to (left, bottom) doesn't
+// cross any colspan cells by splitting cells that cross it. Return
+// true if something changed.
+function isolateVertical(
+  tr: Transaction,
+  map: TableMap,
+  table: Node,
+  start: number,
+  top: number,
+  bottom: number,
+  left: number,
+  mapFrom: number,
+): boolean {
+  if (left == 0 || left == map.width) return false;
+  let found = false;
+  for (let row = top; row < bottom; row++) {
+    const index = row * map.width + left,
+      pos = map.map[index];
+    if (map.map[index - 1] == pos) {
+      found = true;
+      const cell = table.nodeAt(pos)!;
+      const cellLeft = map.colCount(pos);
+      const updatePos = tr.mapping.slice(mapFrom).map(pos + start);
+      tr.setNodeMarkup(
+        updatePos,
+        null,
+        removeColSpan(
+          cell.attrs as CellAttrs,
+          left - cellLeft,
+          cell.attrs.colspan - (left - cellLeft),
+        ),
+      );
+      tr.insert(
+        updatePos + cell.nodeSize,
+        cell.type.createAndFill(
+          removeColSpan(cell.attrs as CellAttrs, 0, left - cellLeft),
+        )!,
+      );
+      row += cell.attrs.rowspan - 1;
+    }
+  }
+  return found;
+}
+
 /**
  * Insert the given set of cells (as returned by `pastedCells`) into a
- * table, at the position pointed at by rect.
+ * table, at the position pointed at by rect. When a transaction is
+ * given, the cells are inserted into the table as it is in that
+ * transaction's document.
  *
  * @internal
  */
@@ -196,8 +532,9 @@ export function insertCells(
   tableStart: number,
   rect: Rect,
   cells: Area,
+  tr: Transaction = state.tr,
 ): void {
-  let table = tableStart ? state.doc.nodeAt(tableStart - 1) : state.doc;
+  let table = tableStart ? tr.doc.nodeAt(tableStart - 1) : tr.doc;
   if (!table) {
     throw new Error('No table found');
   }
@@ -205,8 +542,7 @@ export function insertCells(
   const { top, left } = rect;
   const right = left + cells.width,
     bottom = top + cells.height;
-  const tr = state.tr;
-  let mapFrom = 0;
+  let mapFrom = tr.mapping.maps.length;
 
   function recomp(): void {
     table = tableStart ? tr.doc.nodeAt(tableStart - 1) : tr.doc;
@@ -222,6 +558,16 @@ export function insertCells(
   // insert into. If anything about it changes, recompute the table
   // map so that subsequent operations can see the current shape.
   if (growTable(tr, map, table, tableStart, right, bottom, mapFrom)) recomp();
+  if (isolateHorizontal(tr, map, table, tableStart, left, right, top, mapFrom))
+    recomp();
+  if (
+    isolateHorizontal(tr, map, table, tableStart, left, right, bottom, mapFrom)
+  )
+    recomp();
+  if (isolateVertical(tr, map, table, tableStart, top, bottom, left, mapFrom))
+    recomp();
+  if (isolateVertical(tr, map, table, tableStart, top, bottom, right, mapFrom))
+    recomp();
 
   for (let row = top; row < bottom; row++) {
     const from = map.positionAt(row, left, table),
@@ -241,3 +587,212 @@ export function insertCells(
   );
   dispatch(tr);
 }
+
+/**
+ * The ways in which [`pasteCells`](#pasteCells) can put cells into a
+ * table. `"overwrite"` replaces the target cells with the pasted ones,
+ * `"valuesOnly"` replaces only the content of the target cells,
+ * keeping their attributes, `"transpose"` swaps the rows and columns
+ * of the pasted cells before overwriting, and `"skipEmpty"` replaces
+ * only the content of the target cells, like `"valuesOnly"`, but
+ * leaves target cells alone where the pasted cell is empty.
+ *
+ * @public
+ */
+export type PasteMode = 'overwrite' | 'valuesOnly' | 'transpose' | 'skipEmpty';
+
+/**
+ * @public
+ */
+export interface PasteCellsOptions {
+  /**
+   * How to put the cells into the table. Defaults to `"overwrite"`.
+   */
+  mode?: PasteMode;
+  /**
+   * When set, make room for the pasted cells by inserting empty rows
+   * above the target cell (shifting the existing rows down) or empty
+   * columns before it (shifting the existing columns right), so that
+   * no existing content is overwritten.
+   */
+  insert?: 'rows' | 'columns';
+}
+
+/**
+ * Returns a command that pastes the given cells (as returned by
+ * `pastedCells`) into the table at the selection. When the selection
+ * is a cell selection, the cells are clipped or repeated to fill it.
+ * Otherwise, they are put at the selected cell, growing the table
+ * when necessary.
+ *
+ * @public
+ */
+export function pasteCells(
+  area: Area,
+  { mode = 'overwrite', insert }: PasteCellsOptions = {},
+): Command {
+  return (state, dispatch) => {
+    if (!isInTable(state)) return false;
+    let cells = mode == 'transpose' ? transposeCells(area) : area;
+    const sel = state.selection;
+    let tableStart: number, rect: Rect;
+    if (sel instanceof CellSelection) {
+      const table = sel.$anchorCell.node(-1);
+      tableStart = sel.$anchorCell.start(-1);
+      rect = TableMap.get(table).rectBetween(
+        sel.$anchorCell.pos - tableStart,
+        sel.$headCell.pos - tableStart,
+      );
+      if (!insert)
+        cells = clipCells(
+          cells,
+          rect.right - rect.left,
+          rect.bottom - rect.top,
+        );
+    } else {
+      const $cell = selectionCell(state);
+      tableStart = $cell.start(-1);
+      rect = TableMap.get($cell.node(-1)).findCell($cell.pos - tableStart);
+    }
+    if (dispatch) {
+      const tr = state.tr;
+      if (insert)
+        insertLines(
+          tr,
+          tableStart,
+          rect,
+          insert,
+          insert == 'rows' ? cells.height : cells.width,
+        );
+      if (mode == 'valuesOnly' || mode == 'skipEmpty')
+        insertCellContent(
+          dispatch,
+          tableStart,
+          rect,
+          cells,
+          mode == 'skipEmpty',
+          tr,
+        );
+      else insertCells(state, dispatch, tableStart, rect, cells, tr);
+    }
+    return true;
+  };
+}
+
+// Insert `count` empty rows above, or columns before, the top left
+// of `rect`.
+function insertLines(
+  tr: Transaction,
+  tableStart: number,
+  rect: Rect,
+  axis: 'rows' | 'columns',
+  count: number,
+): void {
+  for (let i = 0; i < count; i++) {
+    const table = (tableStart ? tr.doc.nodeAt(tableStart - 1) : tr.doc)!;
+    const tableRect = { ...rect, tableStart, table, map: TableMap.get(table) };
+    if (axis == 'rows') addRow(tr, tableRect, rect.top);
+    else addColumnFrom(tr, tableRect, rect.left, tr.mapping.maps.length);
+  }
+}
+
+// Swap the rows and columns of an area of cells.
+function transposeCells(area: Area): Area {
+  const table = areaTable(area);
+  const map = TableMap.get(table);
+  const rows: Fragment[] = [];
+  for (let col = 0; col < map.width; col++) {
+    const cells: Node[] = [];
+    for (let row = 0; row < map.height; row++) {
+      const pos = map.map[row * map.width + col];
+      const { top, left } = map.findCell(pos);
+      if (top != row || left != col) continue;
+      const cell = table.nodeAt(pos)!;
+      const { colspan, rowspan } = cell.attrs as CellAttrs;
+      cells.push(
+        cell.type.create(
+          { ...cell.attrs, colspan: rowspan, rowspan: colspan, colwidth: null },
+          cell.content,
+        ),
+      );
+    }
+    rows.push(Fragment.from(cells));
+  }
+  return ensureRectangular(table.type.schema, rows);
+}
+
+function isEmptyCell(cell: Node): boolean {
+  const { content } = cell;
+  return (
+    content.size == 0 ||
+    (content.childCount == 1 &&
+      content.child(0).isTextblock &&
+      content.child(0).childCount == 0)
+  );
+}
+
+// Put the content of the given cells into the cells of the table
+// starting at the top left of `rect`, leaving the shape of the table
+// and the attributes of its cells alone. When `skipEmpty` is true,
+// empty pasted cells are skipped.
+function insertCellContent(
+  dispatch: (tr: Transaction) => void,
+  tableStart: number,
+  { top, left }: Rect,
+  cells: Area,
+  skipEmpty: boolean,
+  tr: Transaction,
+): void {
+  const getTable = () => (tableStart ? tr.doc.nodeAt(tableStart - 1) : tr.doc)!;
+  let table = getTable();
+  const right = left + cells.width,
+    bottom = top + cells.height;
+  const growFrom = tr.mapping.maps.length;
+  if (
+    growTable(
+      tr,
+      TableMap.get(table),
+      table,
+      tableStart,
+      right,
+      bottom,
+      growFrom,
+    )
+  )
+    table = getTable();
+  const map = TableMap.get(table);
+  const mapFrom = tr.mapping.maps.length;
+
+  const source = areaTable(cells);
+  const sourceMap = TableMap.get(source);
+  const done: number[] = [];
+  for (let row = 0; row < sourceMap.height; row++) {
+    for (let col = 0; col < sourceMap.width; col++) {
+      const sourcePos = sourceMap.map[row * sourceMap.width + col];
+      const sourceRect = sourceMap.findCell(sourcePos);
+      if (sourceRect.top != row || sourceRect.left != col) continue;
+      const cell = source.nodeAt(sourcePos)!;
+      if (skipEmpty && isEmptyCell(cell)) continue;
+      const pos = map.map[(top + row) * map.width + left + col];
+      const rect = map.findCell(pos);
+      if (rect.top != top + row || rect.left != left + col) continue;
+      if (done.includes(pos)) continue;
+      done.push(pos);
+      const target = table.nodeAt(pos)!;
+      const from = tr.mapping.slice(mapFrom).map(tableStart + pos);
+      tr.replaceWith(from + 1, from + target.nodeSize - 1, cell.content);
+    }
+  }
+
+  table = getTable();
+  const endMap = TableMap.get(table);
+  tr.setSelection(
+    new CellSelection(
+      tr.doc.resolve(tableStart + endMap.positionAt(top, left, table)),
+      tr.doc.resolve(
+        tableStart + endMap.positionAt(bottom - 1, right - 1, table),
+      ),
+    ),
+  );
+  dispatch(tr);
+}
@@ -0,0 +1,164 @@
+// Conversion between tables and plain data: delimited text, arrays of
+// rows, and arrays of objects keyed by column name. Cells are read in
+// the slot order of the table's TableMap, with slots covered by a
+// spanning cell that starts elsewhere producing empty values, so that
+// every row has the same number of fields.
+
+import { Node, NodeType, Schema } from 'prosemirror-model';
+
+import { rowIsHeader } from './addlines';
+import { quoteField } from './copypaste';
+import { tableNodeTypes } from './schema';
+import { TableMap } from './tablemap';
+import { tableFields } from './util';
+
+/**
+ * @public
+ */
+export type TableDataFormat = 'csv' | 'tsv' | 'json';
+
+/**
+ * @public
+ */
+export type TableDataOptions = {
+  /**
+   * The output format. Defaults to `'csv'`.
+   */
+  format?: TableDataFormat;
+  /**
+   * Whether the first row holds the column names, which are used as
+   * the keys of the objects produced in JSON mode. Defaults to
+   * whether the first row consists of header cells. Has no effect on
+   * the delimited formats, which always include every row.
+   */
+  headerRow?: boolean;
+};
+
+/**
+ * A row of data, either an array of values in column order, or an
+ * object mapping column names to values.
+ *
+ * @public
+ */
+export type TableDataRow =
+  | readonly unknown[]
+  | { readonly [key: string]: unknown };
+
+/**
+ * Get the text of the cells in a table as data. The CSV and TSV
+ * formats produce a string with one line per row, quoting fields as
+ * described in RFC 4180 when needed. The JSON format produces an
+ * array of objects keyed by the text of the header row's cells when
+ * the table has a header row, and an array of arrays of strings
+ * otherwise. Columns with an empty header are keyed by their index,
+ * and repeated header texts get a number appended (`"name 2"`), so
+ * that every column has its own key.
+ *
+ * @public
+ */
+export function tableToData(
+  table: Node,
+  options: TableDataOptions & { format: 'json' },
+): Record<string, string>[] | string[][];
+export function tableToData(
+  table: Node,
+  options?: TableDataOptions & { format?: 'csv' | 'tsv' },
+): string;
+export function tableToData(
+  table: Node,
+  { format = 'csv', headerRow }: TableDataOptions = {},
+): string | Record<string, string>[] | string[][] {
+  const rows = tableFields(table);
+  if (format != 'json') {
+    const delimiter = format == 'tsv' ? '\t' : ',';
+    return rows
+      .map((fields) =>
+        fields.map((field) => quoteField(field, delimiter)).join(delimiter),
+      )
+      .join('\n');
+  }
+  if (!(headerRow ?? rowIsHeader(TableMap.get(table), table, 0))) return rows;
+  const keys = uniqueKeys(rows[0]);
+  return rows.slice(1).map((fields) => {
+    const object: Record<string, string> = {};
+    keys.forEach((key, col) => (object[key] = fields[col]));
+    return object;
+  });
+}
+
+// Make header texts usable as object keys, using the column index for
+// empty headers (including slots covered by a spanning header cell),
+// and numbering repeated ones.
+function uniqueKeys(fields: string[]): string[] {
+  const keys: string[] = [];
+  fields.forEach((field, col) => {
+    const base = field || String(col);
+    let key = base;
+    for (let n = 2; keys.includes(key); n++) key = base + ' ' + n;
+    keys.push(key);
+  });
+  return keys;
+}
+
+/**
+ * Create a table node from rows of data. When the rows are objects, a
+ * header row is added holding their keys, in the order in which they
+ * first appear, and each object's values are placed in the column for
+ * their key. Arrays are used as rows as-is, with the first one made
+ * into a header row when `headerRow` is true. Values are converted
+ * to strings, with line breaks starting a new textblock. Returns null
+ * when there are no rows.
+ *
+ * @public
+ */
+export function dataToTable(
+  schema: Schema,
+  rows: readonly TableDataRow[],
+  { headerRow = false }: { headerRow?: boolean } = {},
+): Node | null {
+  let values: unknown[][];
+  let header = headerRow;
+  if (rows.length && rows.every((row) => !Array.isArray(row))) {
+    const keys: string[] = [];
+    for (const row of rows)
+      for (const key of Object.keys(row))
+        if (!keys.includes(key)) keys.push(key);
+    values = [
+      keys,
+      ...rows.map((row) =>
+        keys.map((key) => (row as Record<string, unknown>)[key]),
+      ),
+    ];
+    header = true;
+  } else {
+    values = rows.map((row) => (Array.isArray(row) ? row : Object.values(row)));
+  }
+  const width = Math.max(0, ...values.map((row) => row.length));
+  if (!values.length || !width) return null;
+
+  const types = tableNodeTypes(schema);
+  return types.table.create(
+    null,
+    values.map((row, index) => {
+      const type = header && index == 0 ? types.header_cell : types.cell;
+      const cells: Node[] = [];
+      for (let col = 0; col < width; col++) {
+        const cell = valueCell(type, row[col]);
+        if (cell) cells.push(cell);
+      }
+      return types.row.create(null, cells);
+    }),
+  );
+}
+
+function valueCell(type: NodeType, value: unknown): Node | null {
+  const text = value == null ? '' : String(value);
+  const block = type.contentMatch.defaultType;
+  if (!text || !block || !block.isTextblock) return type.createAndFill();
+  return type.createAndFill(
+    null,
+    text
+      .split(/\r?\n/)
+      .map((line) => block.create(null, line ? type.schema.text(line) : null)),
+  );
+}
@@ -7,6 +7,7 @@ import { Node } from 'prosemirror-model';
 import { EditorState, PluginKey, Transaction } from 'prosemirror-state';
 import { tableNodeTypes, TableRole } from './schema';
 import { TableMap } from './tablemap';
+import { CellAttrs, removeColSpan } from './util';
 
 /**
  * @public
@@ -90,8 +91,32 @@ export function fixTable(
     if (prob.type == 'collision') {
       const cell = table.nodeAt(prob.pos);
       if (!cell) continue;
+      const attrs = cell.attrs as CellAttrs;
+      for (let j = 0; j < attrs.rowspan; j++) mustAdd[prob.row + j] += prob.n;
+      tr.setNodeMarkup(
+        tr.mapping.map(tablePos + 1 + prob.pos),
+        null,
+        removeColSpan(attrs, attrs.colspan - prob.n, prob.n),
+      );
     } else if (prob.type == 'missing') {
       mustAdd[prob.row] += prob.n;
+    } else if (prob.type == 'overlong_rowspan') {
+      const cell = table.nodeAt(prob.pos);
+      if (!cell) continue;
+      tr.setNodeMarkup(tr.mapping.map(tablePos + 1 + prob.pos), null, {
+        ...cell.attrs,
+        rowspan: cell.attrs.rowspan - prob.n,
+      });
+    } else if (prob.type == 'colwidth_mismatch') {
+      const cell = table.nodeAt(prob.pos);
+      if (!cell) continue;
+      tr.setNodeMarkup(tr.mapping.map(tablePos + 1 + prob.pos), null, {
+        ...cell.attrs,
+        colwidth: prob.colwidth,
+      });
+    } else if (prob.type == 'zero_sized') {
+      const pos = tr.mapping.map(tablePos);
+      tr.delete(pos, pos + table.nodeSize);
     }
   }
   let first, last;
@@ -7,36 +7,71 @@
 import { Plugin } from 'prosemirror-state';
 
 import { drawCellSelection, normalizeSelection } from './cellselection';
+import { cellsToText } from './copypaste';
 import { fixTables, fixTablesKey } from './fixtables';
+import { normalizeTableHTML } from './normalizehtml';
 import {
+  handleCopy,
+  handleCut,
+  handleFillKeyDown,
   handleKeyDown,
   handleMouseDown,
   handlePaste,
   handleTripleClick,
 } from './input';
+import type { PasteTableBehavior } from './input';
 import { tableEditingKey } from './util';
 
 export { CellBookmark, CellSelection } from './cellselection';
 export type { CellSelectionJSON } from './cellselection';
-// export {
-//   columnResizing,
-//   columnResizingPluginKey,
-//   ResizeState,
-// } from './columnresizing';
-// export type { ColumnResizingOptions, Dragging } from './columnresizing';
+export {
+  columnResizing,
+  columnResizingPluginKey,
+  resizeColumnBy,
+  ResizeState,
+  setColumnWidth,
+} from './columnresizing';
+export type {
+  ColumnResizingOptions,
+  ColumnWidthOptions,
+  Dragging,
+} from './columnresizing';
 export * from './commands';
 export {
+  cellsToText as __cellsToText,
   clipCells as __clipCells,
+  clipboardSerializer as __clipboardSerializer,
   insertCells as __insertCells,
   pastedCells as __pastedCells,
+  textCells as __textCells,
+  pasteCells,
 } from './copypaste';
-export type { Area as __Area } from './copypaste';
-export type { Direction } from './input';
-export { tableNodeTypes } from './schema';
-export type { TableRole } from './schema';
+export type { Area as __Area, PasteCellsOptions, PasteMode } from './copypaste';
+export { dataToTable, tableToData } from './data';
+export type { TableDataFormat, TableDataOptions, TableDataRow } from './data';
+export type {
+  Direction,
+  HandlePasteOptions,
+  PasteTableBehavior,
+} from './input';
+export { markdownToTable, tableToMarkdown } from './markdown';
+export { normalizeTableHTML } from './normalizehtml';
+export { tableNodes, tableNodeTypes } from './schema';
+export type {
+  CellAttributes,
+  getFromDOM,
+  setDOMAttr,
+  TableNodes,
+  TableNodesOptions,
+  TableRole,
+} from './schema';
+export { tableReordering, tableReorderingPluginKey } from './reordering';
+export type { ReorderDragging, TableReorderingOptions } from './reordering';
+export { detectSeries } from './series';
+export type { Series } from './series';
 export { TableMap } from './tablemap';
-export type { Problem, Rect } from './tablemap';
-// export { TableView, updateColumnsOnResize } from './tableview';
+export type { ColWidths, Problem, Rect } from './tablemap';
+export { TableView, updateColumnsOnResize } from './tableview';
 export {
   cellAround,
   colCount,
@@ -49,7 +84,13 @@ export {
   pointsAtCell,
   selectionCell,
 } from './util';
-export type { MutableAttrs } from './util';
+export type {
+  CellAlignment,
+  CellAttrs,
+  CellVerticalAlign,
+  MutableAttrs,
+  TableAttrs,
+} from './util';
 export { fixTables, handlePaste, fixTablesKey };
 export { tableEditingKey };
 
@@ -58,13 +99,39 @@ export { tableEditingKey };
  */
 export type TableEditingOptions = {
   allowTableNodeSelection?: boolean;
+  /**
+   * When true, Mod-d and Mod-r run [`fillDown`](#fillDown) and
+   * [`fillRight`](#fillRight) on cell selections. Defaults to false.
+   */
+  fillShortcuts?: boolean;
+  /**
+   * When true, cutting a selection of whole rows or columns removes
+   * them from the table, rather than just clearing their cells.
+   * Defaults to false.
+   */
+  cutRemovesRowsAndColumns?: boolean;
+  /**
+   * When set, pasting cells into a table inserts new rows (shifting
+   * existing rows down) or columns (shifting existing columns right)
+   * to hold them, instead of overwriting existing cells.
+   */
+  insertOnPaste?: 'rows' | 'columns';
+  /**
+   * What to do when a whole table is pasted into a table. Defaults to
+   * `'merge'`, which pastes the table's cells into the table.
+   */
+  onPasteTable?: PasteTableBehavior;
 };
 
 /**
  * Creates a [plugin](http://prosemirror.net/docs/ref/#state.Plugin)
  * that, when added to an editor, enables cell-selection, handles
  * cell-based copy/paste, and makes sure tables stay well-formed (each
- * row has the same width, and cells don't overlap).
+ * row has the same width, and cells don't overlap). Copied cells are
+ * put on the clipboard both as tab-separated text and as a plain HTML
+ * table, so that they can be pasted into spreadsheets. Tables in
+ * pasted HTML are cleaned up with
+ * [`normalizeTableHTML`](#normalizeTableHTML) before being parsed.
  *
  * You should probably put this plugin near the end of your array of
  * plugins, since it handles mouse and arrow key events in tables
@@ -76,6 +143,10 @@ export type TableEditingOptions = {
  */
 export function tableEditing({
   allowTableNodeSelection = false,
+  fillShortcuts = false,
+  cutRemovesRowsAndColumns = false,
+  insertOnPaste,
+  onPasteTable = 'merge',
 }: TableEditingOptions = {}): Plugin {
   return new Plugin({
     key: tableEditingKey,
@@ -101,6 +172,8 @@ export function tableEditing({
 
       handleDOMEvents: {
         mousedown: handleMouseDown,
+        copy: handleCopy,
+        cut: (view, event) => handleCut(view, event, cutRemovesRowsAndColumns),
       },
 
       createSelectionBetween(view) {
@@ -111,9 +184,21 @@ export function tableEditing({
 
       handleTripleClick,
 
-      handleKeyDown,
+      handleKeyDown: fillShortcuts
+        ? (view, event) =>
+            handleKeyDown(view, event) || handleFillKeyDown(view, event)
+        : handleKeyDown,
+
+      handlePaste: (view, event, slice) =>
+        handlePaste(view, event, slice, {
+          insert: insertOnPaste,
+          onPasteTable,
+        }),
+
+      transformPastedHTML: (html, view) =>
+        normalizeTableHTML(html, view.dom.ownerDocument),
 
-      handlePaste,
+      clipboardTextSerializer: cellsToText,
     },
 
     appendTransaction(_, oldState, state) {
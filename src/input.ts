@@ -1,7 +1,13 @@
 // This file defines a number of helpers for wiring up user input to
 // table-related functionality.
 
-import { Fragment, ResolvedPos, Slice } from 'prosemirror-model';
+import {
+  Fragment,
+  Node as ProsemirrorNode,
+  ResolvedPos,
+  Schema,
+  Slice,
+} from 'prosemirror-model';
 import {
   Command,
   EditorState,
@@ -17,11 +23,18 @@ import {
   isInTable,
   tableEditingKey,
   nextCell,
-  selectionCell,
+  tableFields,
 } from './util';
 import { CellSelection } from './cellselection';
-import { TableMap } from './tablemap';
-import { clipCells, fitSlice, insertCells, pastedCells } from './copypaste';
+import { deleteColumn, deleteRow, fillDown, fillRight } from './commands';
+import {
+  fitSlice,
+  pasteCells,
+  pastedCells,
+  pastedTable,
+  serializeCells,
+  textCells,
+} from './copypaste';
 import { tableNodeTypes } from './schema';
 import { EditorView } from 'prosemirror-view';
 
@@ -32,6 +45,38 @@ type Axis = 'horiz' | 'vert';
  */
 export type Direction = -1 | 1;
 
+/**
+ * What to do when a whole table is pasted into a table. `'merge'`
+ * pastes its cells into the table, `'nest'` leaves the paste to the
+ * editor, which inserts the table into the cell when the cell's
+ * content allows that, and `'flatten'` inserts the text of the
+ * table's rows into the cell as paragraphs. A function gets to handle
+ * the paste itself, and should return true when it did, or false to
+ * have the table merged.
+ *
+ * @public
+ */
+export type PasteTableBehavior =
+  | 'merge'
+  | 'nest'
+  | 'flatten'
+  | ((view: EditorView, table: ProsemirrorNode, slice: Slice) => boolean);
+
+/**
+ * @public
+ */
+export type HandlePasteOptions = {
+  /**
+   * When given, rows or columns are inserted to make room for the
+   * pasted cells, instead of overwriting existing ones.
+   */
+  insert?: 'rows' | 'columns';
+  /**
+   * How to handle a pasted table. Defaults to `'merge'`.
+   */
+  onPasteTable?: PasteTableBehavior;
+};
+
 export const handleKeyDown = keydownHandler({
   ArrowLeft: arrow('horiz', -1),
   ArrowRight: arrow('horiz', 1),
@@ -49,6 +94,11 @@ export const handleKeyDown = keydownHandler({
   'Mod-Delete': deleteCellSelection,
 });
 
+export const handleFillKeyDown = keydownHandler({
+  'Mod-d': fillDown,
+  'Mod-r': fillRight,
+});
+
 function maybeSetSelection(
   state: EditorState,
   dispatch: undefined | ((tr: Transaction) => void),
@@ -141,6 +191,50 @@ function deleteCellSelection(
   return true;
 }
 
+/**
+ * Copy a cell selection: put its cells on the clipboard as a plain
+ * HTML table and as tab-separated text, so that they can be pasted
+ * into spreadsheets. Other selections are left to the editor.
+ *
+ * @internal
+ */
+export function handleCopy(view: EditorView, event: ClipboardEvent): boolean {
+  const sel = view.state.selection;
+  if (!(sel instanceof CellSelection) || !event.clipboardData) return false;
+  const { html, text } = serializeCells(view.state.schema, sel.content());
+  event.clipboardData.clearData();
+  event.clipboardData.setData('text/html', html);
+  event.clipboardData.setData('text/plain', text);
+  event.preventDefault();
+  return true;
+}
+
+/**
+ * Cut a cell selection: put its cells on the clipboard and reset the
+ * selected cells to empty ones. When `removeLines` is true and whole
+ * rows or columns are selected, those are removed from the table
+ * instead.
+ *
+ * @internal
+ */
+export function handleCut(
+  view: EditorView,
+  event: ClipboardEvent,
+  removeLines = false,
+): boolean {
+  if (!handleCopy(view, event)) return false;
+  const sel = view.state.selection as CellSelection;
+
+  const dispatch = (tr: Transaction) =>
+    view.dispatch(tr.scrollIntoView().setMeta('uiEvent', 'cut'));
+  const removed =
+    removeLines &&
+    ((sel.isRowSelection() && deleteRow(view.state, dispatch)) ||
+      (sel.isColSelection() && deleteColumn(view.state, dispatch)));
+  if (!removed) deleteCellSelection(view.state, dispatch);
+  return true;
+}
+
 export function handleTripleClick(view: EditorView, pos: number): boolean {
   const doc = view.state.doc,
     $cell = cellAround(doc.resolve(pos));
@@ -150,50 +244,91 @@ export function handleTripleClick(view: EditorView, pos: number): boolean {
 }
 
 /**
+ * Paste cells into the table at the selection.
+ *
  * @public
  */
 export function handlePaste(
   view: EditorView,
-  _: ClipboardEvent,
+  event: ClipboardEvent,
   slice: Slice,
+  { insert, onPasteTable = 'merge' }: HandlePasteOptions = {},
 ): boolean {
   if (!isInTable(view.state)) return false;
+  const table = onPasteTable == 'merge' ? null : pastedTable(slice);
+  if (table) {
+    if (onPasteTable == 'nest') return false;
+    if (onPasteTable == 'flatten') return pasteTableText(view, table);
+    if (typeof onPasteTable == 'function' && onPasteTable(view, table, slice))
+      return true;
+  }
   let cells = pastedCells(slice);
   const sel = view.state.selection;
+  if (!cells) {
+    // Plain text copied from a spreadsheet separates cells with tabs
+    // and rows with line breaks. Multi-line text without tabs is only
+    // spread over cells when pasting into a cell selection. When the
+    // clipboard also holds formatted HTML, that is pasted instead.
+    const text = event.clipboardData?.getData('text/plain');
+    const html = event.clipboardData?.getData('text/html');
+    if (
+      text &&
+      (!html || isPlainText(view.state.schema, slice)) &&
+      (text.includes('\t') || sel instanceof CellSelection)
+    )
+      cells = textCells(view.state.schema, text);
+  }
+  if (!cells && sel instanceof CellSelection)
+    cells = {
+      width: 1,
+      height: 1,
+      rows: [
+        Fragment.from(fitSlice(tableNodeTypes(view.state.schema).cell, slice)),
+      ],
+    };
+  return cells
+    ? pasteCells(cells, { insert })(view.state, view.dispatch)
+    : false;
+}
+
+// Check whether a slice holds nothing but unformatted text, in the
+// kind of textblock that cells are filled with by default.
+function isPlainText(schema: Schema, slice: Slice): boolean {
+  const textblock = tableNodeTypes(schema).cell.contentMatch.defaultType;
+  let plain = true;
+  slice.content.descendants((node) => {
+    if (node.isText ? node.marks.length : node.type != textblock) plain = false;
+    return plain;
+  });
+  return plain;
+}
+
+// Insert the text of a table's rows into the selection cell, one
+// paragraph per row.
+function pasteTableText(view: EditorView, table: ProsemirrorNode): boolean {
+  const { state } = view;
+  const type = tableNodeTypes(state.schema).cell.contentMatch.defaultType;
+  if (!type || !type.isTextblock) return false;
+  const blocks: ProsemirrorNode[] = [];
+  for (const fields of tableFields(table)) {
+    const text = fields.filter((field) => field).join(' ');
+    if (text) blocks.push(type.create(null, state.schema.text(text)));
+  }
+  if (!blocks.length) return true;
+  const tr = state.tr,
+    sel = state.selection;
   if (sel instanceof CellSelection) {
-    if (!cells)
-      cells = {
-        width: 1,
-        height: 1,
-        rows: [
-          Fragment.from(
-            fitSlice(tableNodeTypes(view.state.schema).cell, slice),
-          ),
-        ],
-      };
-    const table = sel.$anchorCell.node(-1);
-    const start = sel.$anchorCell.start(-1);
-    const rect = TableMap.get(table).rectBetween(
-      sel.$anchorCell.pos - start,
-      sel.$headCell.pos - start,
+    const cell = sel.$anchorCell.nodeAfter!;
+    tr.replaceWith(
+      sel.$anchorCell.pos + 1,
+      sel.$anchorCell.pos + cell.nodeSize - 1,
+      blocks,
     );
-    cells = clipCells(cells, rect.right - rect.left, rect.bottom - rect.top);
-    insertCells(view.state, view.dispatch, start, rect, cells);
-    return true;
-  } else if (cells) {
-    const $cell = selectionCell(view.state);
-    const start = $cell.start(-1);
-    insertCells(
-      view.state,
-      view.dispatch,
-      start,
-      TableMap.get($cell.node(-1)).findCell($cell.pos - start),
-      cells,
-    );
-    return true;
   } else {
-    return false;
+    tr.replaceSelection(new Slice(Fragment.from(blocks), 1, 1));
   }
+  view.dispatch(tr.scrollIntoView().setMeta('uiEvent', 'paste'));
+  return true;
 }
 
 export function handleMouseDown(
@@ -0,0 +1,162 @@
+// Conversion between tables and GitHub Flavored Markdown table syntax.
+//
+// Markdown tables have no cell spans and only hold a single line of
+// inline text per cell, so the conversion is lossy: slots covered by
+// a spanning cell are exported as empty cells, inline formatting is
+// exported as plain text, and the paragraphs of a cell are joined
+// with `<br>` tags (which are split up again on import). When the
+// cell node types have an `alignment` attribute, it is used for the
+// column alignment markers.
+
+import { Node, NodeType, Schema } from 'prosemirror-model';
+
+import { tableNodeTypes } from './schema';
+import { TableMap } from './tablemap';
+
+type Alignment = 'left' | 'center' | 'right' | null;
+
+const delimiterCell = /^:?-+:?$/;
+const lineBreak = /<br\s*\/?>/i;
+const unescapedPipe = /(^|[^\\])\|/;
+
+/**
+ * Convert a table node to a Markdown table. The first row of the
+ * table is used as the Markdown header row, and the alignment of each
+ * column is taken from the `alignment` attribute (`"left"`,
+ * `"center"`, or `"right"`) of its cell in that row, if any.
+ *
+ * @public
+ */
+export function tableToMarkdown(table: Node): string {
+  const map = TableMap.get(table);
+  const lines: string[] = [];
+  for (let row = 0; row < map.height; row++) {
+    const fields: string[] = [];
+    for (let col = 0; col < map.width; col++) {
+      const index = row * map.width + col;
+      const cellPos = map.map[index];
+      const covered =
+        (col > 0 && map.map[index - 1] == cellPos) ||
+        (row > 0 && map.map[index - map.width] == cellPos);
+      fields.push(covered ? '' : cellMarkdown(table.nodeAt(cellPos)!));
+    }
+    lines.push(markdownRow(fields));
+    if (row == 0) {
+      const markers: string[] = [];
+      for (let col = 0; col < map.width; col++)
+        markers.push(
+          alignmentMarker(table.nodeAt(map.map[col])!.attrs.alignment),
+        );
+      lines.push(markdownRow(markers));
+    }
+  }
+  return lines.join('\n');
+}
+
+function markdownRow(fields: string[]): string {
+  return '| ' + fields.join(' | ') + ' |';
+}
+
+function cellMarkdown(cell: Node): string {
+  const blocks: string[] = [];
+  cell.forEach((block) => {
+    const text = block.textBetween(0, block.content.size, ' ').trim();
+    if (text) blocks.push(text);
+  });
+  return blocks.join('<br>').replace(/\r?\n/g, '<br>').replace(/\|/g, '\\|');
+}
+
+function alignmentMarker(alignment: unknown): string {
+  if (alignment == 'left') return ':---';
+  if (alignment == 'center') return ':---:';
+  if (alignment == 'right') return '---:';
+  return '---';
+}
+
+// Split a line of a Markdown table into its trimmed fields, ignoring
+// the optional pipes at the start and end of the line.
+function splitRow(line: string): string[] {
+  let text = line.trim();
+  if (text.startsWith('|')) text = text.slice(1);
+  if (text.endsWith('|') && !text.endsWith('\\|')) text = text.slice(0, -1);
+  const fields: string[] = [];
+  let field = '';
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (ch == '\\' && text[i + 1] == '|') {
+      field += '|';
+      i++;
+    } else if (ch == '|') {
+      fields.push(field.trim());
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  fields.push(field.trim());
+  return fields;
+}
+
+function parseAlignment(marker: string): Alignment {
+  const left = marker.startsWith(':'),
+    right = marker.endsWith(':');
+  if (left && right) return 'center';
+  if (left) return 'left';
+  if (right) return 'right';
+  return null;
+}
+
+/**
+ * Parse a Markdown table into a table node. The first line is used as
+ * the header row, and the line after it may be a delimiter row, whose
+ * alignment markers are stored in the cells' `alignment` attribute
+ * when the schema's cell types have one. Rows are padded or cut to
+ * the width of the header row. Returns null when the first non-empty
+ * line of the text isn't a pipe-delimited row.
+ *
+ * @public
+ */
+export function markdownToTable(schema: Schema, text: string): Node | null {
+  const lines = text.split(/\r?\n/).filter((line) => line.trim());
+  if (!lines.length || !unescapedPipe.test(lines[0])) return null;
+  const header = splitRow(lines[0]);
+  let alignments: Alignment[] = [];
+  let body = lines.slice(1);
+  if (body.length) {
+    const markers = splitRow(body[0]);
+    if (markers.every((marker) => delimiterCell.test(marker))) {
+      alignments = markers.map(parseAlignment);
+      body = body.slice(1);
+    }
+  }
+
+  const types = tableNodeTypes(schema);
+  const rows = [header, ...body.map(splitRow)].map((fields, row) => {
+    const type = row == 0 ? types.header_cell : types.cell;
+    const aligned = 'alignment' in (type.spec.attrs || {});
+    const cells: Node[] = [];
+    for (let col = 0; col < header.length; col++) {
+      const attrs =
+        aligned && alignments[col] ? { alignment: alignments[col] } : null;
+      const cell = markdownCell(type, attrs, fields[col] || '');
+      if (cell) cells.push(cell);
+    }
+    return types.row.create(null, cells);
+  });
+  return types.table.create(null, rows);
+}
+
+function markdownCell(
+  type: NodeType,
+  attrs: { alignment: Alignment } | null,
+  text: string,
+): Node | null {
+  const textblock = type.contentMatch.defaultType;
+  if (!textblock || !textblock.isTextblock) return type.createAndFill(attrs);
+  const blocks = text
+    .split(lineBreak)
+    .map((line) => line.trim())
+    .filter((line) => line)
+    .map((line) => textblock.create(null, type.schema.text(line)));
+  return blocks.length ? type.create(attrs, blocks) : type.createAndFill(attrs);
+}
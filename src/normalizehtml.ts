@@ -0,0 +1,205 @@
+// Clean-up for tables in pasted HTML.
+//
+// Office suites and wikis put a lot of structure and styling on their
+// tables that the table schema doesn't model: row groups, formatted
+// captions, column elements carrying the widths, `mso-` styles,
+// non-breaking space filler in empty cells, and hidden spacer rows.
+// This rewrites such tables into a plain caption and a single body of
+// rows and cells before the clipboard parser gets to see them, so that
+// captions, cell widths, and header rows survive the paste.
+
+/**
+ * Normalize the tables in a piece of pasted HTML. Row groups are
+ * merged into a single body (with the `<thead>` rows first, and their
+ * cells turned into header cells, and the `<tfoot>` rows last),
+ * captions are reduced to their text, `<col>` widths are put on the
+ * cells' `data-colwidth` attributes, `mso-` styles are removed, cells
+ * holding only whitespace are emptied, and empty spacer rows are
+ * dropped. HTML without tables is returned unchanged.
+ *
+ * @public
+ */
+export function normalizeTableHTML(
+  html: string,
+  doc: Document = document,
+): string {
+  if (!/<table[\s>]/i.test(html)) return html;
+  const template = doc.createElement('template');
+  template.innerHTML = html;
+  template.content
+    .querySelectorAll('table')
+    .forEach((table) => normalizeTable(table));
+  return template.innerHTML;
+}
+
+function normalizeTable(table: HTMLTableElement): void {
+  const doc = table.ownerDocument;
+  const widths: number[] = [];
+  let caption: string | null = null;
+  const head: HTMLElement[] = [],
+    body: HTMLElement[] = [],
+    foot: HTMLElement[] = [];
+
+  for (const child of Array.from(table.children) as HTMLElement[]) {
+    switch (child.nodeName) {
+      case 'CAPTION':
+        if (caption == null) caption = (child.textContent || '').trim();
+        break;
+      case 'COLGROUP':
+        child
+          .querySelectorAll('col')
+          .forEach((col) => addColumnWidths(widths, col));
+        if (!child.children.length) addColumnWidths(widths, child);
+        break;
+      case 'COL':
+        addColumnWidths(widths, child);
+        break;
+      case 'THEAD':
+        head.push(...rowsIn(child));
+        break;
+      case 'TFOOT':
+        foot.push(...rowsIn(child));
+        break;
+      case 'TBODY':
+        body.push(...rowsIn(child));
+        break;
+      case 'TR':
+        body.push(child);
+        break;
+    }
+    child.remove();
+  }
+
+  head.forEach((row) => {
+    for (const cell of cellsIn(row))
+      if (cell.nodeName == 'TD') row.replaceChild(headerCell(cell), cell);
+  });
+
+  if (caption != null)
+    table.appendChild(doc.createElement('caption')).textContent = caption;
+  const tbody = doc.createElement('tbody');
+  table.appendChild(tbody);
+  // Track the cells that span down into later rows, per column, to find
+  // the column each cell starts at.
+  const spanning: (HTMLElement | null)[] = [];
+  const remaining: number[] = [];
+  for (const row of [...head, ...body, ...foot]) {
+    const cells = cellsIn(row);
+    cells.forEach(cleanCell);
+    if (isSpacerRow(row, cells)) {
+      const shortened = new Set<HTMLElement>();
+      for (let col = 0; col < remaining.length; col++) {
+        if (!remaining[col]) continue;
+        remaining[col]--;
+        const cell = spanning[col]!;
+        if (shortened.has(cell)) continue;
+        shortened.add(cell);
+        const rowspan = Number(cell.getAttribute('rowspan'));
+        if (rowspan > 2) cell.setAttribute('rowspan', String(rowspan - 1));
+        else cell.removeAttribute('rowspan');
+      }
+      continue;
+    }
+    let col = 0;
+    for (const cell of cells) {
+      while (remaining[col]) col++;
+      const colspan = Number(cell.getAttribute('colspan')) || 1;
+      const rowspan = Number(cell.getAttribute('rowspan')) || 1;
+      const cellWidths = widths.slice(col, col + colspan);
+      if (
+        !cell.hasAttribute('data-colwidth') &&
+        cellWidths.length == colspan &&
+        cellWidths.every((width) => width > 0)
+      )
+        cell.setAttribute('data-colwidth', cellWidths.join(','));
+      for (let i = 0; i < colspan; i++) {
+        spanning[col + i] = cell;
+        remaining[col + i] = rowspan;
+      }
+      col += colspan;
+    }
+    for (let i = 0; i < remaining.length; i++) if (remaining[i]) remaining[i]--;
+    tbody.appendChild(row);
+  }
+
+  table.querySelectorAll('[style]').forEach(removeOfficeStyles);
+  removeOfficeStyles(table);
+}
+
+function rowsIn(section: HTMLElement): HTMLElement[] {
+  return Array.from(section.children).filter(
+    (child) => child.nodeName == 'TR',
+  ) as HTMLElement[];
+}
+
+function cellsIn(row: HTMLElement): HTMLElement[] {
+  return Array.from(row.children).filter(
+    (child) => child.nodeName == 'TD' || child.nodeName == 'TH',
+  ) as HTMLElement[];
+}
+
+function headerCell(cell: HTMLElement): HTMLElement {
+  const header = cell.ownerDocument.createElement('th');
+  for (const attr of Array.from(cell.attributes))
+    header.setAttribute(attr.name, attr.value);
+  while (cell.firstChild) header.appendChild(cell.firstChild);
+  return header;
+}
+
+function addColumnWidths(widths: number[], col: Element): void {
+  const span = Number(col.getAttribute('span')) || 1;
+  const width =
+    parseWidth(col.getAttribute('width')) ||
+    parseWidth((col as HTMLElement).style?.width);
+  for (let i = 0; i < span; i++) widths.push(width);
+}
+
+// Read a width in pixels, converting point values as used by Office.
+// Percentages and other units produce zero.
+function parseWidth(value: string | null | undefined): number {
+  const match = value && /^\s*(\d+(?:\.\d+)?)\s*(px|pt)?\s*$/.exec(value);
+  if (!match) return 0;
+  const number = Number(match[1]);
+  return Math.round(match[2] == 'pt' ? (number * 4) / 3 : number);
+}
+
+function isEmptyCell(cell: HTMLElement): boolean {
+  return (
+    !/\S/.test(cell.textContent || '') &&
+    !cell.querySelector('img, video, iframe, object, input, table, hr')
+  );
+}
+
+// Empty out cells that only hold whitespace, such as the `&nbsp;`
+// paragraphs Office puts in blank cells.
+function cleanCell(cell: HTMLElement): void {
+  if (isEmptyCell(cell)) cell.textContent = '';
+}
+
+// A row without cells, or a hidden row whose cells are all empty.
+function isSpacerRow(row: HTMLElement, cells: HTMLElement[]): boolean {
+  if (!cells.length) return true;
+  if (!cells.every(isEmptyCell)) return false;
+  if (row.getAttribute('height') == '0') return true;
+  return (row.getAttribute('style') || '').split(';').some((decl) => {
+    const [name, value = ''] = decl
+      .split(':')
+      .map((part) => part.trim().toLowerCase());
+    return (
+      (name == 'display' && value == 'none') ||
+      (name == 'mso-hide' && value == 'all') ||
+      (name == 'height' && parseFloat(value) === 0)
+    );
+  });
+}
+
+function removeOfficeStyles(element: Element): void {
+  const style = element.getAttribute('style');
+  if (style == null) return;
+  const kept = style
+    .split(';')
+    .map((decl) => decl.trim())
+    .filter((decl) => decl && !/^mso-/i.test(decl));
+  if (kept.length) element.setAttribute('style', kept.join('; '));
+  else element.removeAttribute('style');
+}
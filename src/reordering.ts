@@ -0,0 +1,326 @@
+// This file defines a plugin that lets the user reorder table rows
+// and columns by selecting them and dragging the selection to another
+// position in the table. While dragging, a line is drawn at the place
+// where the rows or columns would be dropped.
+
+import { EditorState, Plugin, PluginKey, Selection } from 'prosemirror-state';
+import { Decoration, DecorationSet, EditorView } from 'prosemirror-view';
+import { CellSelection } from './cellselection';
+import {
+  moveSelectedColumnsTo,
+  moveSelectedRowsTo,
+  MoveTableLineOptions,
+  selectedRect,
+} from './commands';
+import { isColumnBoundary, isRowBoundary, TableMap } from './tablemap';
+import { cellAround, tableEditingKey } from './util';
+
+/**
+ * @public
+ */
+export const tableReorderingPluginKey = new PluginKey<ReorderDragging | null>(
+  'tableReordering',
+);
+
+/**
+ * @public
+ */
+export type TableReorderingOptions = {
+  /**
+   * The distance, in pixels, the mouse has to move before a press on
+   * a selected row or column turns into a drag.
+   */
+  dragThreshold?: number;
+};
+
+/**
+ * Describes an ongoing row or column drag. `from` and `count` give
+ * the dragged lines, and `drop` the index of the row or column border
+ * the lines would currently be dropped on, if any.
+ *
+ * @public
+ */
+export type ReorderDragging = {
+  axis: 'row' | 'column';
+  tableStart: number;
+  from: number;
+  count: number;
+  drop: number | null;
+};
+
+/**
+ * Creates a plugin that allows full-row and full-column cell
+ * selections to be dragged to another position in their table. The
+ * move is applied as a single transaction when the mouse is released.
+ *
+ * This plugin should come before
+ * [`tableEditing`](#tableEditing) in your plugin array, so that it
+ * gets to handle presses on a selected row or column before they
+ * start a new cell selection.
+ *
+ * @public
+ */
+export function tableReordering({
+  dragThreshold = 4,
+}: TableReorderingOptions = {}): Plugin {
+  return new Plugin<ReorderDragging | null>({
+    key: tableReorderingPluginKey,
+    state: {
+      init() {
+        return null;
+      },
+      apply(tr, prev) {
+        const action = tr.getMeta(tableReorderingPluginKey);
+        if (action !== undefined) return action;
+        // Give up on the drag when the document changes underneath it.
+        return prev && tr.docChanged ? null : prev;
+      },
+    },
+    props: {
+      attributes: (state): Record<string, string> =>
+        tableReorderingPluginKey.getState(state)
+          ? { class: 'reorder-cursor' }
+          : {},
+
+      handleDOMEvents: {
+        mousedown: (view, event) => handleMouseDown(view, event, dragThreshold),
+      },
+
+      decorations: (state) => {
+        const dragging = tableReorderingPluginKey.getState(state);
+        if (dragging && dragging.drop != null)
+          return dropDecorations(state, dragging);
+      },
+    },
+  });
+}
+
+function handleMouseDown(
+  view: EditorView,
+  event: MouseEvent,
+  dragThreshold: number,
+): boolean {
+  if (event.button != 0 || event.ctrlKey || event.metaKey || event.shiftKey)
+    return false;
+  // Don't interfere with a cell selection that is being dragged out.
+  if (tableEditingKey.getState(view.state) != null) return false;
+  const dragging = draggableSelection(view.state);
+  if (!dragging) return false;
+  const $cell = cellUnderMouse(view, event);
+  if (!$cell || $cell.start(-1) != dragging.tableStart) return false;
+  const rect = selectedRect(view.state);
+  const cellRect = rect.map.findCell($cell.pos - rect.tableStart);
+  if (
+    cellRect.left < rect.left ||
+    cellRect.right > rect.right ||
+    cellRect.top < rect.top ||
+    cellRect.bottom > rect.bottom
+  )
+    return false;
+
+  let started = false;
+
+  function finish(_event: Event): void {
+    const event = _event as MouseEvent;
+    window.removeEventListener('mouseup', finish);
+    window.removeEventListener('mousemove', move);
+    if (!started) {
+      // A plain click on the selection, which would normally have
+      // collapsed it, so do that.
+      const found = view.posAtCoords({
+        left: event.clientX,
+        top: event.clientY,
+      });
+      if (found)
+        view.dispatch(
+          view.state.tr.setSelection(
+            Selection.near(view.state.doc.resolve(found.pos)),
+          ),
+        );
+      return;
+    }
+    const current = tableReorderingPluginKey.getState(view.state);
+    if (!current) return;
+    const to = current.drop == null ? null : moveTarget(current, current.drop);
+    const moved =
+      to != null &&
+      moveCommand(current, to)(view.state, (tr) =>
+        view.dispatch(tr.setMeta(tableReorderingPluginKey, null)),
+      );
+    if (!moved)
+      view.dispatch(view.state.tr.setMeta(tableReorderingPluginKey, null));
+  }
+
+  function move(_event: Event): void {
+    const event = _event as MouseEvent;
+    if (!started) {
+      const distance =
+        Math.abs(event.clientX - startX) + Math.abs(event.clientY - startY);
+      if (distance < dragThreshold) return;
+      started = true;
+      view.dispatch(view.state.tr.setMeta(tableReorderingPluginKey, dragging));
+    }
+    const current = tableReorderingPluginKey.getState(view.state);
+    if (!current) return;
+    let drop = dropIndex(view, event, current);
+    if (drop != null && !canDrop(view.state, current, drop)) drop = null;
+    if (drop != current.drop)
+      view.dispatch(
+        view.state.tr.setMeta(tableReorderingPluginKey, { ...current, drop }),
+      );
+  }
+
+  const startX = event.clientX,
+    startY = event.clientY;
+  window.addEventListener('mouseup', finish);
+  window.addEventListener('mousemove', move);
+  event.preventDefault();
+  return true;
+}
+
+// Describe the drag that the current selection allows, if it covers
+// whole rows or whole columns (but not the entire table).
+function draggableSelection(state: EditorState): ReorderDragging | null {
+  const sel = state.selection;
+  if (!(sel instanceof CellSelection)) return null;
+  const rows = sel.isRowSelection(),
+    columns = sel.isColSelection();
+  if (rows == columns) return null;
+  const { tableStart, left, right, top, bottom } = selectedRect(state);
+  return rows
+    ? { axis: 'row', tableStart, from: top, count: bottom - top, drop: null }
+    : {
+        axis: 'column',
+        tableStart,
+        from: left,
+        count: right - left,
+        drop: null,
+      };
+}
+
+function cellUnderMouse(view: EditorView, event: MouseEvent) {
+  const found = view.posAtCoords({ left: event.clientX, top: event.clientY });
+  return found ? cellAround(view.state.doc.resolve(found.pos)) : null;
+}
+
+// Find the border between rows or columns closest to the mouse,
+// within the cell under it.
+function dropIndex(
+  view: EditorView,
+  event: MouseEvent,
+  dragging: ReorderDragging,
+): number | null {
+  const $cell = cellUnderMouse(view, event);
+  if (!$cell || $cell.start(-1) != dragging.tableStart) return null;
+  const dom = view.nodeDOM($cell.pos) as HTMLElement | null;
+  if (!dom) return null;
+  const rect = TableMap.get($cell.node(-1)).findCell(
+    $cell.pos - dragging.tableStart,
+  );
+  const box = dom.getBoundingClientRect();
+  if (dragging.axis == 'row')
+    return event.clientY < (box.top + box.bottom) / 2 ? rect.top : rect.bottom;
+  return event.clientX < (box.left + box.right) / 2 ? rect.left : rect.right;
+}
+
+// Convert a drop border into the index the dragged lines should be
+// moved to, or null if dropping there wouldn't move anything.
+function moveTarget(
+  { from, count }: ReorderDragging,
+  drop: number,
+): number | null {
+  if (drop < from) return drop;
+  if (drop > from + count) return drop - count;
+  return null;
+}
+
+// Check whether the dragged lines can be dropped on the given border.
+// This runs on every mouse move, so it only looks at the table map,
+// leaving the actual move to the drop.
+function canDrop(
+  state: EditorState,
+  dragging: ReorderDragging,
+  drop: number,
+): boolean {
+  const to = moveTarget(dragging, drop);
+  if (to == null) return false;
+  const table = state.doc.resolve(dragging.tableStart).parent;
+  if (table.type.spec.tableRole != 'table') return false;
+  return canMoveTableLines(TableMap.get(table), dragging.axis, {
+    from: dragging.from,
+    to,
+    count: dragging.count,
+  });
+}
+
+/**
+ * Check whether the given rows or columns can be moved, without
+ * building the transaction that moves them.
+ *
+ * @internal
+ */
+export function canMoveTableLines(
+  map: TableMap,
+  axis: 'row' | 'column',
+  { from, to, count = 1 }: MoveTableLineOptions,
+): boolean {
+  const size = axis == 'row' ? map.height : map.width;
+  if (from == to || count < 1) return false;
+  if (from < 0 || from + count > size || to < 0 || to + count > size)
+    return false;
+  const isBoundary = (line: number) =>
+    axis == 'row' ? isRowBoundary(map, line) : isColumnBoundary(map, line);
+  const target = to < from ? to : to + count;
+  return isBoundary(from) && isBoundary(from + count) && isBoundary(target);
+}
+
+function moveCommand(dragging: ReorderDragging, to: number) {
+  return dragging.axis == 'row'
+    ? moveSelectedRowsTo(to)
+    : moveSelectedColumnsTo(to);
+}
+
+/**
+ * Draws a drop line along the row or column border that the given
+ * drag would currently drop on.
+ *
+ * @internal
+ */
+export function dropDecorations(
+  state: EditorState,
+  { axis, tableStart, drop }: ReorderDragging,
+): DecorationSet {
+  const table = state.doc.resolve(tableStart).parent;
+  if (table.type.spec.tableRole != 'table' || drop == null)
+    return DecorationSet.empty;
+  const map = TableMap.get(table);
+  const size = axis == 'row' ? map.height : map.width;
+  const length = axis == 'row' ? map.width : map.height;
+  if (drop < 0 || drop > size) return DecorationSet.empty;
+  // Draw the line on the cells after the border, or, for the border
+  // at the end of the table, on the cells before it.
+  const line = drop == size ? drop - 1 : drop;
+  const className =
+    'drop-indicator ' +
+    (axis == 'row'
+      ? drop == size
+        ? 'drop-indicator-bottom'
+        : 'drop-indicator-top'
+      : drop == size
+      ? 'drop-indicator-right'
+      : 'drop-indicator-left');
+  const decorations = [];
+  const seen: number[] = [];
+  for (let i = 0; i < length; i++) {
+    const cellPos =
+      map.map[axis == 'row' ? line * map.width + i : i * map.width + line];
+    if (seen.includes(cellPos)) continue;
+    seen.push(cellPos);
+    const dom = document.createElement('div');
+    dom.className = className;
+    decorations.push(
+      Decoration.widget(tableStart + cellPos + 1, dom, { key: className }),
+    );
+  }
+  return DecorationSet.create(state.doc, decorations);
+}
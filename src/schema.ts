@@ -1,6 +1,266 @@
 // Helper for creating a schema that supports tables.
 
-import { NodeType, Schema } from 'prosemirror-model';
+import {
+  AttributeSpec,
+  Attrs,
+  Node,
+  NodeSpec,
+  NodeType,
+  Schema,
+} from 'prosemirror-model';
+import { CellAttrs, isSafeStyleValue, MutableAttrs, TableAttrs } from './util';
+
+function getCellAttrs(dom: HTMLElement | string, extraAttrs: Attrs): Attrs {
+  if (typeof dom === 'string') {
+    return {};
+  }
+
+  const widthAttr = dom.getAttribute('data-colwidth');
+  const widths =
+    widthAttr && /^\d+(,\d+)*$/.test(widthAttr)
+      ? widthAttr.split(',').map((s) => Number(s))
+      : null;
+  const colspan = Number(dom.getAttribute('colspan') || 1);
+  const { textAlign, verticalAlign, backgroundColor } = dom.style;
+  const result: MutableAttrs = {
+    colspan,
+    rowspan: Number(dom.getAttribute('rowspan') || 1),
+    colwidth: widths && widths.length == colspan ? widths : null,
+    alignment:
+      textAlign == 'left' || textAlign == 'center' || textAlign == 'right'
+        ? textAlign
+        : null,
+    verticalAlign:
+      verticalAlign == 'top' ||
+      verticalAlign == 'middle' ||
+      verticalAlign == 'bottom'
+        ? verticalAlign
+        : null,
+    background: backgroundColor || null,
+  } satisfies CellAttrs;
+  for (const prop in extraAttrs) {
+    const getter = extraAttrs[prop].getFromDOM;
+    const value = getter && getter(dom);
+    if (value != null) {
+      result[prop] = value;
+    }
+  }
+  return result;
+}
+
+function setCellAttrs(node: Node, extraAttrs: Attrs): Attrs {
+  const attrs: MutableAttrs = {};
+  if (node.attrs.colspan != 1) attrs.colspan = node.attrs.colspan;
+  if (node.attrs.rowspan != 1) attrs.rowspan = node.attrs.rowspan;
+  if (node.attrs.colwidth)
+    attrs['data-colwidth'] = node.attrs.colwidth.join(',');
+  const styles: string[] = [];
+  const { alignment, verticalAlign, background } = node.attrs as CellAttrs;
+  // Formatting attributes redefined through `cellAttributes` are left
+  // to their own `setDOMAttr`.
+  if (alignment && !extraAttrs.alignment)
+    styles.push('text-align: ' + alignment);
+  if (verticalAlign && !extraAttrs.verticalAlign)
+    styles.push('vertical-align: ' + verticalAlign);
+  if (background && !extraAttrs.background && isSafeStyleValue(background))
+    styles.push('background-color: ' + background);
+  // End every declaration with a semicolon, so that a `setDOMAttr`
+  // can append its own.
+  if (styles.length) attrs.style = styles.map((style) => style + ';').join(' ');
+  for (const prop in extraAttrs) {
+    const setter = extraAttrs[prop].setDOMAttr;
+    if (setter) setter(node.attrs[prop], attrs);
+  }
+  return attrs;
+}
+
+function getTableAttrs(dom: HTMLElement | string): Attrs {
+  if (typeof dom === 'string') {
+    return {};
+  }
+
+  const caption = Array.from(dom.children).find(
+    (child) => child.nodeName == 'CAPTION',
+  );
+  const alignment = dom.getAttribute('data-align');
+  const layout = dom.getAttribute('data-layout');
+  return {
+    caption: caption ? (caption.textContent || '').trim() : null,
+    alignment:
+      alignment == 'left' || alignment == 'center' || alignment == 'right'
+        ? alignment
+        : null,
+    layout:
+      layout == 'fixed' || layout == 'auto' || layout == 'full-width'
+        ? layout
+        : null,
+    variant: dom.getAttribute('data-variant') || null,
+  } satisfies TableAttrs;
+}
+
+function setTableAttrs(node: Node): Attrs {
+  const { alignment, layout, variant } = node.attrs as TableAttrs;
+  const attrs: MutableAttrs = {};
+  if (alignment) attrs['data-align'] = alignment;
+  if (layout) attrs['data-layout'] = layout;
+  if (variant) attrs['data-variant'] = variant;
+  return attrs;
+}
+
+/**
+ * @public
+ */
+export type getFromDOM = (dom: HTMLElement) => unknown;
+
+/**
+ * @public
+ */
+export type setDOMAttr = (value: unknown, attrs: MutableAttrs) => void;
+
+/**
+ * @public
+ */
+export interface CellAttributes {
+  /**
+   * The attribute's default value.
+   */
+  default: unknown;
+
+  /**
+   * A function to read the attribute's value from a DOM node.
+   */
+  getFromDOM?: getFromDOM;
+
+  /**
+   * A function to add the attribute's value to an attribute
+   * object that's used to render the cell's DOM.
+   */
+  setDOMAttr?: setDOMAttr;
+}
+
+/**
+ * @public
+ */
+export interface TableNodesOptions {
+  /**
+   * A group name (something like `"block"`) to add to the table
+   * node type.
+   */
+  tableGroup?: string;
+
+  /**
+   * The content expression for table cells.
+   */
+  cellContent: string;
+
+  /**
+   * Additional attributes to add to cells. Maps attribute names to
+   * objects with the following properties:
+   */
+  cellAttributes: { [key: string]: CellAttributes };
+}
+
+/**
+ * @public
+ */
+export type TableNodes = Record<
+  'table' | 'table_row' | 'table_cell' | 'table_header',
+  NodeSpec
+>;
+
+/**
+ * This function creates a set of [node
+ * specs](http://prosemirror.net/docs/ref/#model.SchemaSpec.nodes) for
+ * `table`, `table_row`, and `table_cell` nodes types as used by this
+ * module. The result can then be added to the set of nodes when
+ * creating a schema. Table nodes get the attributes described by
+ * [`TableAttrs`](#TableAttrs), and cells those described by
+ * [`CellAttrs`](#CellAttrs), with their alignment and background
+ * rendered as inline styles. These are also read from the
+ * `text-align`, `vertical-align`, and `background-color` styles of
+ * parsed cells, so that shading on cells pasted from spreadsheets is
+ * kept.
+ *
+ * @public
+ */
+export function tableNodes(options: TableNodesOptions): TableNodes {
+  const extraAttrs = options.cellAttributes || {};
+  const cellAttrs: Record<string, AttributeSpec> = {
+    colspan: { default: 1 },
+    rowspan: { default: 1 },
+    colwidth: { default: null },
+    alignment: { default: null },
+    verticalAlign: { default: null },
+    background: { default: null },
+  };
+  for (const prop in extraAttrs)
+    cellAttrs[prop] = { default: extraAttrs[prop].default };
+
+  return {
+    table: {
+      content: 'table_row+',
+      attrs: {
+        caption: { default: null },
+        alignment: { default: null },
+        layout: { default: null },
+        variant: { default: null },
+      },
+      tableRole: 'table',
+      isolating: true,
+      group: options.tableGroup,
+      parseDOM: [
+        { tag: 'table', getAttrs: (dom) => getTableAttrs(dom) },
+        // Captions are read into the table's attributes.
+        { tag: 'caption', ignore: true },
+      ],
+      toDOM(node) {
+        const { caption } = node.attrs as TableAttrs;
+        return caption == null
+          ? ['table', setTableAttrs(node), ['tbody', 0]]
+          : [
+              'table',
+              setTableAttrs(node),
+              // Edits to the caption would be lost, since it isn't part
+              // of the table's content.
+              ['caption', { contenteditable: 'false' }, caption],
+              ['tbody', 0],
+            ];
+      },
+    },
+    table_row: {
+      content: '(table_cell | table_header)*',
+      tableRole: 'row',
+      parseDOM: [{ tag: 'tr' }],
+      toDOM() {
+        return ['tr', 0];
+      },
+    },
+    table_cell: {
+      content: options.cellContent,
+      attrs: cellAttrs,
+      tableRole: 'cell',
+      isolating: true,
+      parseDOM: [
+        { tag: 'td', getAttrs: (dom) => getCellAttrs(dom, extraAttrs) },
+      ],
+      toDOM(node) {
+        return ['td', setCellAttrs(node, extraAttrs), 0];
+      },
+    },
+    table_header: {
+      content: options.cellContent,
+      attrs: cellAttrs,
+      tableRole: 'header_cell',
+      isolating: true,
+      parseDOM: [
+        { tag: 'th', getAttrs: (dom) => getCellAttrs(dom, extraAttrs) },
+      ],
+      toDOM(node) {
+        return ['th', setCellAttrs(node, extraAttrs), 0];
+      },
+    },
+  };
+}
 
 /**
  * @public
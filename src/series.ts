@@ -0,0 +1,165 @@
+// Pattern detection for filling cells with a series. Given the text of
+// a few seed cells, this figures out how to continue them: numbers
+// (optionally with a text prefix) continue with the step between
+// them, weekday and month names cycle, and ISO dates advance by the
+// same number of days or months. Anything else is repeated as-is.
+
+/**
+ * A function that returns the text for the cell at the given index in
+ * a series, where indices below the number of seed values refer to
+ * the seeds themselves.
+ *
+ * @public
+ */
+export type Series = (index: number) => string;
+
+const weekdays = [
+  'monday',
+  'tuesday',
+  'wednesday',
+  'thursday',
+  'friday',
+  'saturday',
+  'sunday',
+];
+
+const months = [
+  'january',
+  'february',
+  'march',
+  'april',
+  'may',
+  'june',
+  'july',
+  'august',
+  'september',
+  'october',
+  'november',
+  'december',
+];
+
+const nameLists = [
+  weekdays,
+  weekdays.map((name) => name.slice(0, 3)),
+  months,
+  months.map((name) => name.slice(0, 3)),
+];
+
+/**
+ * Detect the pattern in the given seed values and return a function
+ * that continues it.
+ *
+ * @public
+ */
+export function detectSeries(values: readonly string[]): Series {
+  const seeds = values.map((value) => value.trim());
+  const series =
+    seeds.length && seeds.every((value) => value)
+      ? numberSeries(seeds) ||
+        dateSeries(seeds) ||
+        nameSeries(seeds) ||
+        prefixedNumberSeries(seeds)
+      : null;
+  return (
+    series || ((index) => (values.length ? values[index % values.length] : ''))
+  );
+}
+
+// Find the constant step between the given numbers, defaulting to
+// one for a single number. Returns null when the steps differ.
+function findStep(numbers: number[]): number | null {
+  if (numbers.length == 1) return 1;
+  const step = numbers[1] - numbers[0];
+  for (let i = 2; i < numbers.length; i++)
+    if (Math.abs(numbers[i] - numbers[i - 1] - step) > 1e-9) return null;
+  return step;
+}
+
+function decimals(value: string): number {
+  const dot = value.indexOf('.');
+  return dot < 0 ? 0 : value.length - dot - 1;
+}
+
+function numberSeries(seeds: string[]): Series | null {
+  if (!seeds.every((value) => /^-?\d+(\.\d+)?$/.test(value))) return null;
+  const numbers = seeds.map(Number);
+  const step = findStep(numbers);
+  if (step == null) return null;
+  const places = Math.max(...seeds.map(decimals));
+  return (index) => (numbers[0] + step * index).toFixed(places);
+}
+
+function pad(number: number, digits: number): string {
+  return String(number).padStart(digits, '0');
+}
+
+// Values like "Item 1" or "Q3", where only the trailing number changes.
+// Leading zeroes in the number are preserved.
+function prefixedNumberSeries(seeds: string[]): Series | null {
+  const matches = seeds.map((value) => /^(.*\D)(\d+)$/.exec(value));
+  if (matches.some((match) => !match || match[1] != matches[0]![1]))
+    return null;
+  const prefix = matches[0]![1],
+    digits = matches[0]![2].length;
+  const numbers = matches.map((match) => Number(match![2]));
+  const step = findStep(numbers);
+  if (step == null) return null;
+  return (index) => prefix + pad(numbers[0] + step * index, digits);
+}
+
+function nameSeries(seeds: string[]): Series | null {
+  for (const names of nameLists) {
+    const indices = seeds.map((value) => names.indexOf(value.toLowerCase()));
+    if (indices.some((index) => index < 0)) continue;
+    let step = findStep(indices);
+    if (step == null) {
+      // Allow wrapping around the end of the list, as in Sat, Sun, Mon.
+      step = (indices[1] - indices[0] + names.length) % names.length;
+      for (let i = 1; i < indices.length; i++)
+        if ((indices[i - 1] + step) % names.length != indices[i]) return null;
+    }
+    const size = names.length,
+      first = indices[0],
+      delta = step;
+    const format = caseFormatter(seeds[0]);
+    return (index) =>
+      format(names[(((first + delta * index) % size) + size) % size]);
+  }
+  return null;
+}
+
+// Reproduce the capitalization of the given example on other words.
+function caseFormatter(example: string): (word: string) => string {
+  if (example.length > 1 && example == example.toUpperCase())
+    return (word) => word.toUpperCase();
+  if (example == example.toLowerCase()) return (word) => word;
+  return (word) => word[0].toUpperCase() + word.slice(1);
+}
+
+// ISO dates, either year-month (advanced by months) or
+// year-month-day (advanced by days).
+function dateSeries(seeds: string[]): Series | null {
+  if (seeds.every((value) => /^\d{4}-\d{2}$/.test(value))) {
+    const monthNumbers = seeds.map((value) => {
+      const [year, month] = value.split('-').map(Number);
+      return month < 1 || month > 12 ? NaN : year * 12 + month - 1;
+    });
+    if (monthNumbers.some(isNaN)) return null;
+    const step = findStep(monthNumbers);
+    if (step == null) return null;
+    return (index) => {
+      const value = monthNumbers[0] + step * index;
+      return pad(Math.floor(value / 12), 4) + '-' + pad((value % 12) + 1, 2);
+    };
+  }
+  if (seeds.every((value) => /^\d{4}-\d{2}-\d{2}$/.test(value))) {
+    const dayMS = 24 * 60 * 60 * 1000;
+    const days = seeds.map((value) => Date.parse(value) / dayMS);
+    if (days.some(isNaN)) return null;
+    const step = findStep(days);
+    if (step == null) return null;
+    return (index) =>
+      new Date((days[0] + step * index) * dayMS).toISOString().slice(0, 10);
+  }
+  return null;
+}
@@ -0,0 +1,140 @@
+import { Node } from 'prosemirror-model';
+import { NodeView } from 'prosemirror-view';
+import { CellAttrs, TableAttrs } from './util';
+
+/**
+ * A node view for tables that wraps the table in a scrollable
+ * container and renders a `<colgroup>` reflecting the column widths
+ * stored in the cells of the first row. The table's
+ * [attributes](#TableAttrs) are rendered as they are by the table
+ * node's `toDOM` method, with the caption as an uneditable
+ * `<caption>` element.
+ *
+ * @public
+ */
+export class TableView implements NodeView {
+  public dom: HTMLDivElement;
+  public table: HTMLTableElement;
+  public caption: HTMLTableCaptionElement | null = null;
+  public colgroup: HTMLTableColElement;
+  public contentDOM: HTMLTableSectionElement;
+
+  constructor(public node: Node, public cellMinWidth: number) {
+    this.dom = document.createElement('div');
+    this.dom.className = 'tableWrapper';
+    this.table = this.dom.appendChild(document.createElement('table'));
+    this.colgroup = this.table.appendChild(document.createElement('colgroup'));
+    updateColumnsOnResize(node, this.colgroup, this.table, cellMinWidth);
+    this.contentDOM = this.table.appendChild(document.createElement('tbody'));
+    this.updateTableAttrs();
+  }
+
+  update(node: Node): boolean {
+    if (node.type != this.node.type) return false;
+    this.node = node;
+    updateColumnsOnResize(node, this.colgroup, this.table, this.cellMinWidth);
+    this.updateTableAttrs();
+    return true;
+  }
+
+  ignoreMutation(record: MutationRecord): boolean {
+    return (
+      (record.type == 'attributes' &&
+        (record.target == this.table ||
+          this.colgroup.contains(record.target))) ||
+      (this.caption != null && this.caption.contains(record.target))
+    );
+  }
+
+  private updateTableAttrs(): void {
+    const { caption, alignment, layout, variant } = this.node
+      .attrs as TableAttrs;
+    setDataAttr(this.table, 'data-align', alignment);
+    setDataAttr(this.table, 'data-layout', layout);
+    setDataAttr(this.table, 'data-variant', variant);
+    if (caption == null) {
+      if (this.caption) this.table.removeChild(this.caption);
+      this.caption = null;
+    } else {
+      if (!this.caption) {
+        this.caption = this.table.insertBefore(
+          document.createElement('caption'),
+          this.table.firstChild,
+        );
+        this.caption.contentEditable = 'false';
+      }
+      if (this.caption.textContent != caption)
+        this.caption.textContent = caption;
+    }
+  }
+}
+
+function setDataAttr(
+  dom: HTMLElement,
+  name: string,
+  value: string | null | undefined,
+): void {
+  if (value) {
+    if (dom.getAttribute(name) != value) dom.setAttribute(name, value);
+  } else if (dom.hasAttribute(name)) {
+    dom.removeAttribute(name);
+  }
+}
+
+/**
+ * Synchronize the `<col>` elements in `colgroup` with the column
+ * widths of the given table node, and set the table's width (when all
+ * columns have a fixed width) or minimum width. When `overrideCol` is
+ * given, that column is displayed with `overrideValue` as its width
+ * instead of the stored one.
+ *
+ * @public
+ */
+export function updateColumnsOnResize(
+  node: Node,
+  colgroup: HTMLTableColElement,
+  table: HTMLTableElement,
+  cellMinWidth: number,
+  overrideCol?: number,
+  overrideValue?: number,
+): void {
+  let totalWidth = 0;
+  let fixedWidth = true;
+  let nextDOM = colgroup.firstChild as HTMLElement;
+  const row = node.firstChild;
+  if (!row) return;
+
+  for (let i = 0, col = 0; i < row.childCount; i++) {
+    const { colspan, colwidth } = row.child(i).attrs as CellAttrs;
+    for (let j = 0; j < colspan; j++, col++) {
+      const hasWidth =
+        overrideCol == col ? overrideValue : colwidth && colwidth[j];
+      const cssWidth = hasWidth ? hasWidth + 'px' : '';
+      totalWidth += hasWidth || cellMinWidth;
+      if (!hasWidth) fixedWidth = false;
+      if (!nextDOM) {
+        colgroup.appendChild(document.createElement('col')).style.width =
+          cssWidth;
+      } else {
+        if (nextDOM.style.width != cssWidth) nextDOM.style.width = cssWidth;
+        nextDOM = nextDOM.nextSibling as HTMLElement;
+      }
+    }
+  }
+
+  while (nextDOM) {
+    const after = nextDOM.nextSibling;
+    nextDOM.parentNode!.removeChild(nextDOM);
+    nextDOM = after as HTMLElement;
+  }
+
+  // Full-width tables stretch to fill their container, with the column
+  // widths only acting as a minimum.
+  if (fixedWidth && node.attrs.layout != 'full-width') {
+    table.style.width = totalWidth + 'px';
+    table.style.minWidth = '';
+  } else {
+    table.style.width = '';
+    table.style.minWidth = totalWidth + 'px';
+  }
+}
@@ -2,7 +2,7 @@
 
 import { EditorState, NodeSelection, PluginKey } from 'prosemirror-state';
 
-import { Node, ResolvedPos } from 'prosemirror-model';
+import { Attrs, Node, ResolvedPos } from 'prosemirror-model';
 import { CellSelection } from './cellselection';
 import { tableNodeTypes } from './schema';
 import { Rect, TableMap } from './tablemap';
@@ -16,7 +16,55 @@ export type MutableAttrs = Record<string, unknown>;
  * @public
  */
 export interface CellAttrs {
-  width: string;
+  colspan: number;
+  rowspan: number;
+  colwidth: number[] | null;
+  alignment?: CellAlignment | null;
+  verticalAlign?: CellVerticalAlign | null;
+  background?: string | null;
+}
+
+/**
+ * The horizontal alignment of the content of a cell.
+ *
+ * @public
+ */
+export type CellAlignment = 'left' | 'center' | 'right';
+
+/**
+ * The vertical alignment of the content of a cell.
+ *
+ * @public
+ */
+export type CellVerticalAlign = 'top' | 'middle' | 'bottom';
+
+/**
+ * The table-wide attributes of the table nodes created by
+ * [`tableNodes`](#tableNodes). A null value means the attribute isn't
+ * set, leaving the matter to the document's styling.
+ *
+ * @public
+ */
+export interface TableAttrs {
+  /**
+   * A caption shown with the table.
+   */
+  caption: string | null;
+  /**
+   * The horizontal alignment of the table.
+   */
+  alignment: 'left' | 'center' | 'right' | null;
+  /**
+   * How the table's columns are sized: `'fixed'` uses the column
+   * widths, `'auto'` sizes them to their content, and `'full-width'`
+   * stretches the table to the width of its container.
+   */
+  layout: 'fixed' | 'auto' | 'full-width' | null;
+  /**
+   * The name of a style variant, to be interpreted by the document's
+   * styling.
+   */
+  variant: string | null;
 }
 
 /**
@@ -165,3 +213,70 @@ export function columnIsHeader(
       return false;
   return true;
 }
+
+/**
+ * @public
+ */
+export function removeColSpan(attrs: CellAttrs, pos: number, n = 1): CellAttrs {
+  const result: CellAttrs = { ...attrs, colspan: attrs.colspan - n };
+
+  if (result.colwidth) {
+    result.colwidth = result.colwidth.slice();
+    result.colwidth.splice(pos, n);
+    if (!result.colwidth.some((w) => w > 0)) result.colwidth = null;
+  }
+  return result;
+}
+
+/**
+ * @public
+ */
+export function addColSpan(attrs: CellAttrs, pos: number, n = 1): Attrs {
+  const result = { ...attrs, colspan: attrs.colspan + n };
+  if (result.colwidth) {
+    result.colwidth = result.colwidth.slice();
+    for (let i = 0; i < n; i++) result.colwidth.splice(pos, 0, 0);
+  }
+  return result;
+}
+
+/**
+ * Get the text of every slot in the given table, row by row, with the
+ * content of each cell flattened to a single line. Slots covered by a
+ * spanning cell that starts in another slot are empty strings.
+ *
+ * @internal
+ */
+export function tableFields(table: Node): string[][] {
+  const map = TableMap.get(table);
+  const rows: string[][] = [];
+  for (let row = 0; row < map.height; row++) {
+    const fields: string[] = [];
+    for (let col = 0; col < map.width; col++) {
+      const index = row * map.width + col;
+      const cellPos = map.map[index];
+      if (
+        (col > 0 && map.map[index - 1] == cellPos) ||
+        (row > 0 && map.map[index - map.width] == cellPos)
+      ) {
+        fields.push('');
+      } else {
+        const cell = table.nodeAt(cellPos)!;
+        fields.push(cell.textBetween(0, cell.content.size, ' '));
+      }
+    }
+    rows.push(fields);
+  }
+  return rows;
+}
+
+/**
+ * Check whether a string can safely be used as the value of a CSS
+ * declaration in a `style` attribute, without ending the declaration
+ * or adding others.
+ *
+ * @internal
+ */
+export function isSafeStyleValue(value: string): boolean {
+  return !/[;{}"'\\<>]/.test(value);
+}
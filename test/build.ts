@@ -1,6 +1,13 @@
 import { Node, ResolvedPos, Schema } from 'prosemirror-model';
 import { schema as baseSchema } from 'prosemirror-schema-basic';
-import { NodeSelection, TextSelection } from 'prosemirror-state';
+import ist from 'ist';
+import {
+  Command,
+  EditorState,
+  NodeSelection,
+  Plugin,
+  TextSelection,
+} from 'prosemirror-state';
 import { builders, eq } from 'prosemirror-test-builder';
 import { CellSelection, cellAround, tableNodes } from '../src/';
 
@@ -78,4 +85,22 @@ export function selectionFor(doc: TaggedNode) {
   );
 }
 
+// Run a command on a state created from a tagged document, and check
+// that it fails when `result` is null, or produces `result` otherwise.
+export function testCommand(
+  doc: TaggedNode,
+  command: Command,
+  result: Node | null | undefined,
+  plugins?: readonly Plugin[],
+) {
+  let state = EditorState.create({
+    doc,
+    selection: selectionFor(doc),
+    plugins,
+  });
+  const ran = command(state, (tr) => (state = state.apply(tr)));
+  if (result == null) ist(ran, false);
+  else ist(state.doc, result, eq);
+}
+
 export { eq };
@@ -1,8 +1,24 @@
 import ist from 'ist';
 import { EditorState } from 'prosemirror-state';
 import { DecorationSet } from 'prosemirror-view';
-import { handleDecorations } from '../src/columnresizing';
-import { table, doc, tr, cEmpty } from './build';
+import {
+  columnResizing,
+  handleDecorations,
+  resizeColumnBy,
+  setColumnWidth,
+} from '../src/columnresizing';
+import {
+  table,
+  doc,
+  tr,
+  td,
+  p,
+  c11,
+  cEmpty,
+  cHead,
+  cCursor,
+  testCommand as test,
+} from './build';
 import { describe, it } from 'vitest';
 
 describe('handleDecorations', () => {
@@ -14,3 +30,78 @@ describe('handleDecorations', () => {
     ist(handleDecorations(state, null), DecorationSet.empty);
   });
 });
+
+describe('resizeColumnBy', () => {
+  it('changes the width of the selected column', () =>
+    test(
+      table(
+        tr(td({ colwidth: [100] }, p('x<cursor>')), c11),
+        tr(td({ colwidth: [100] }, p('x')), c11),
+      ),
+      resizeColumnBy(20),
+      table(
+        tr(td({ colwidth: [120] }, p('x')), c11),
+        tr(td({ colwidth: [120] }, p('x')), c11),
+      ),
+    ));
+
+  it('resizes every column covered by a cell selection', () =>
+    test(
+      table(
+        tr(td({ colspan: 2, colwidth: [100, 50] }, p('x<anchor>'))),
+        tr(c11, cHead),
+      ),
+      resizeColumnBy(-10),
+      table(
+        tr(td({ colspan: 2, colwidth: [90, 40] }, p('x'))),
+        tr(td({ colwidth: [90] }, p('x')), td({ colwidth: [40] }, p('x'))),
+      ),
+    ));
+
+  it('respects the minimum cell width', () =>
+    test(
+      table(tr(td({ colwidth: [40] }, p('x<cursor>')))),
+      resizeColumnBy(-30, { cellMinWidth: 30 }),
+      table(tr(td({ colwidth: [30] }, p('x')))),
+    ));
+
+  it('does nothing when the width is unknown', () =>
+    test(table(tr(cCursor, c11)), resizeColumnBy(10), null));
+});
+
+describe('setColumnWidth', () => {
+  it('sets the width of the given column', () =>
+    test(
+      table(tr(cCursor, c11), tr(c11, c11)),
+      setColumnWidth(1, 150),
+      table(
+        tr(c11, td({ colwidth: [150] }, p('x'))),
+        tr(c11, td({ colwidth: [150] }, p('x'))),
+      ),
+    ));
+
+  it('clamps to the minimum cell width', () =>
+    test(
+      table(tr(cCursor)),
+      setColumnWidth(0, 5),
+      table(tr(td({ colwidth: [25] }, p('x')))),
+    ));
+
+  it('takes the minimum cell width from the columnResizing plugin', () =>
+    test(
+      table(tr(cCursor)),
+      setColumnWidth(0, 5),
+      table(tr(td({ colwidth: [40] }, p('x')))),
+      [columnResizing({ cellMinWidth: 40 })],
+    ));
+
+  it('does nothing for a column outside the table', () =>
+    test(table(tr(cCursor)), setColumnWidth(1, 100), null));
+
+  it('does nothing when the width is already set', () =>
+    test(
+      table(tr(td({ colwidth: [100] }, p('x<cursor>')))),
+      setColumnWidth(0, 100),
+      null,
+    ));
+});
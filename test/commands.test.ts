@@ -1,5 +1,10 @@
 import ist from 'ist';
-import { Command, EditorState, Transaction } from 'prosemirror-state';
+import {
+  Command,
+  EditorState,
+  TextSelection,
+  Transaction,
+} from 'prosemirror-state';
 import { Node } from 'prosemirror-model';
 import { describe, it } from 'vitest';
 
@@ -23,8 +28,10 @@ import {
   eq,
   selectionFor,
   TaggedNode,
+  testCommand as test,
 } from './build';
 import {
+  addColumn,
   addColumnAfter,
   addColumnBefore,
   deleteColumn,
@@ -35,21 +42,53 @@ import {
   splitCell,
   splitCellWithType,
   setCellAttr,
+  setCellAlignment,
+  setCellVerticalAlign,
+  setCellBackground,
+  cellAttrState,
+  setTableAttr,
+  toggleTableCaption,
   toggleHeader,
   toggleHeaderRow,
   toggleHeaderColumn,
+  moveSelectedRows,
+  moveSelectedRowsTo,
+  moveSelectedColumns,
+  moveSelectedColumnsTo,
+  moveTableRow,
+  moveTableColumn,
+  selectedRect,
+  sortTableByColumn,
+  fillDown,
+  fillRight,
+  fillSeries,
+  insertTable,
+  textToTable,
+  tableToText,
+  CellSelection,
+  TableMap,
 } from '../src/';
 
-function test(
-  doc: TaggedNode,
-  command: Command,
-  result: Node | null | undefined,
-) {
-  let state = EditorState.create({ doc, selection: selectionFor(doc) });
-  const ran = command(state, (tr) => (state = state.apply(tr)));
-  if (result == null) ist(ran, false);
-  else ist(state.doc, result, eq);
-}
+describe('addColumn', () => {
+  it('maps positions through earlier steps in the transaction', () => {
+    const state = EditorState.create({
+      doc: doc(table(tr(c11, c11), tr(c11, c11))),
+    });
+    const node = state.doc.firstChild!;
+    const transaction = state.tr.insertText('y', 4);
+    const rect = { left: 0, top: 0, right: 0, bottom: 0 };
+    addColumn(
+      transaction,
+      { ...rect, tableStart: 1, table: node, map: TableMap.get(node) },
+      1,
+    );
+    ist(
+      transaction.doc,
+      doc(table(tr(td(p('yx')), cEmpty, c11), tr(c11, cEmpty, c11))),
+      eq,
+    );
+  });
+});
 
 describe('addColumnAfter', () => {
   it('can add a plain column', () =>
@@ -672,6 +711,164 @@ describe('setCellAttr', () => {
     ));
 });
 
+describe('setCellAlignment', () => {
+  const cLeft = td({ alignment: 'left' }, p('x'));
+
+  it('sets the alignment of the cell around the cursor', () =>
+    test(
+      table(tr(cCursor, c11)),
+      setCellAlignment('left'),
+      table(tr(cLeft, c11)),
+    ));
+
+  it('applies to every selected cell, even when the anchor has it', () =>
+    test(
+      table(tr(td({ alignment: 'left' }, p('x<anchor>')), cHead)),
+      setCellAlignment('left'),
+      table(tr(cLeft, cLeft)),
+    ));
+
+  it('does nothing when all cells have the alignment', () =>
+    test(
+      table(
+        tr(
+          td({ alignment: 'left' }, p('x<anchor>')),
+          td({ alignment: 'left' }, p('x<head>')),
+        ),
+      ),
+      setCellAlignment('left'),
+      null,
+    ));
+
+  it('can clear the alignment', () =>
+    test(
+      table(tr(td({ alignment: 'right' }, p('x<cursor>')))),
+      setCellAlignment(null),
+      table(tr(c11)),
+    ));
+});
+
+describe('setCellVerticalAlign', () => {
+  it('sets the vertical alignment of selected cells', () =>
+    test(
+      table(tr(cAnchor, c11), tr(c11, cHead)),
+      setCellVerticalAlign('middle'),
+      table(
+        tr(
+          td({ verticalAlign: 'middle' }, p('x')),
+          td({ verticalAlign: 'middle' }, p('x')),
+        ),
+        tr(
+          td({ verticalAlign: 'middle' }, p('x')),
+          td({ verticalAlign: 'middle' }, p('x')),
+        ),
+      ),
+    ));
+});
+
+describe('setCellBackground', () => {
+  it('sets the background of the cell around the cursor', () =>
+    test(
+      table(tr(cCursor)),
+      setCellBackground('#ffeeaa'),
+      table(tr(td({ background: '#ffeeaa' }, p('x')))),
+    ));
+
+  it('does nothing outside of a table', () =>
+    test(doc(p('a<cursor>')), setCellBackground('red'), null));
+
+  it('refuses values that would add CSS declarations', () =>
+    test(table(tr(cCursor)), setCellBackground('red; position: fixed'), null));
+});
+
+describe('cellAttrState', () => {
+  function state(doc: TaggedNode, name: string) {
+    return cellAttrState(
+      EditorState.create({ doc, selection: selectionFor(doc) }),
+      name,
+    );
+  }
+
+  it('returns the value of the cell around the cursor', () =>
+    ist(
+      JSON.stringify(
+        state(
+          table(tr(td({ background: 'red' }, p('x<cursor>')))),
+          'background',
+        ),
+      ),
+      '{"value":"red","mixed":false}',
+    ));
+
+  it('returns a shared value', () =>
+    ist(
+      JSON.stringify(state(table(tr(cAnchor, cHead)), 'alignment')),
+      '{"value":null,"mixed":false}',
+    ));
+
+  it('reports mixed values', () =>
+    ist(
+      JSON.stringify(
+        state(
+          table(tr(cAnchor, td({ alignment: 'center' }, p('x<head>')))),
+          'alignment',
+        ),
+      ),
+      '{"value":null,"mixed":true}',
+    ));
+
+  it('returns null outside of a table', () =>
+    ist(state(doc(p('a<cursor>')), 'alignment'), null));
+});
+
+describe('setTableAttr', () => {
+  it('sets an attribute on the table around the selection', () =>
+    test(
+      doc(table(tr(cCursor, c11))),
+      setTableAttr('layout', 'fixed'),
+      doc(table({ layout: 'fixed' }, tr(c11, c11))),
+    ));
+
+  it('finds the innermost table', () =>
+    test(
+      table(tr(td(table(tr(cCursor))))),
+      setTableAttr('variant', 'striped'),
+      table(tr(td(table({ variant: 'striped' }, tr(c11))))),
+    ));
+
+  it('does nothing when the attribute is already there', () =>
+    test(
+      doc(table({ alignment: 'center' }, tr(cCursor))),
+      setTableAttr('alignment', 'center'),
+      null,
+    ));
+
+  it('does nothing for unknown attributes', () =>
+    test(doc(table(tr(cCursor))), setTableAttr('foo', 1), null));
+
+  it('does nothing outside of a table', () =>
+    test(doc(p('a<cursor>')), setTableAttr('layout', 'auto'), null));
+});
+
+describe('toggleTableCaption', () => {
+  it('adds a caption', () =>
+    test(
+      doc(table(tr(cCursor))),
+      toggleTableCaption('Totals'),
+      doc(table({ caption: 'Totals' }, tr(c11))),
+    ));
+
+  it('removes a caption', () =>
+    test(
+      doc(table({ caption: 'Totals' }, tr(cCursor))),
+      toggleTableCaption('Other'),
+      doc(table(tr(c11))),
+    ));
+
+  it('does not add an empty caption', () =>
+    test(doc(table(tr(cCursor))), toggleTableCaption(''), null));
+});
+
 describe('toggleHeaderRow', () => {
   it('turns a non-header row into header', () =>
     test(
@@ -765,3 +962,487 @@ describe('toggleHeader', () => {
       ));
   });
 });
+
+const ca = td(p('a'));
+const cb = td(p('b'));
+const cc = td(p('c'));
+const cd = td(p('d'));
+
+describe('moveTableRow', () => {
+  function move(doc: TaggedNode, from: number, to: number, count = 1) {
+    const state = EditorState.create({ doc, selection: selectionFor(doc) });
+    const tr = state.tr;
+    const moved = moveTableRow(tr, selectedRect(state), { from, to, count });
+    return moved ? tr.doc : null;
+  }
+
+  it('can move a row down', () =>
+    ist(
+      move(table(tr(cCursor, ca), tr(cb, cc), tr(cd, c11)), 0, 2),
+      table(tr(cb, cc), tr(cd, c11), tr(c11, ca)),
+      eq,
+    ));
+
+  it('can move several rows up', () =>
+    ist(
+      move(table(tr(cCursor), tr(ca), tr(cb), tr(cc)), 2, 0, 2),
+      table(tr(cb), tr(cc), tr(c11), tr(ca)),
+      eq,
+    ));
+
+  it('keeps row-spanning cells together', () =>
+    ist(
+      move(table(tr(cCursor, ca), tr(c(1, 2), cb), tr(cc)), 1, 0, 2),
+      table(tr(c(1, 2), cb), tr(cc), tr(c11, ca)),
+      eq,
+    ));
+
+  it('refuses to cut through a row-spanning cell', () =>
+    ist(move(table(tr(cCursor, ca), tr(c(1, 2), cb), tr(cc)), 1, 0), null));
+
+  it('refuses to move rows out of the table', () =>
+    ist(move(table(tr(cCursor), tr(ca)), 1, 2), null));
+});
+
+describe('moveTableColumn', () => {
+  function move(doc: TaggedNode, from: number, to: number, count = 1) {
+    const state = EditorState.create({ doc, selection: selectionFor(doc) });
+    const tr = state.tr;
+    const moved = moveTableColumn(tr, selectedRect(state), {
+      from,
+      to,
+      count,
+    });
+    return moved ? tr.doc : null;
+  }
+
+  it('can move a column right', () =>
+    ist(
+      move(table(tr(cCursor, ca, cb), tr(cc, cd, c11)), 0, 2),
+      table(tr(ca, cb, c11), tr(cd, c11, cc)),
+      eq,
+    ));
+
+  it('moves column-spanning cells as a whole', () =>
+    ist(
+      move(table(tr(cCursor, c(2, 1)), tr(ca, cb, cc)), 1, 0, 2),
+      table(tr(c(2, 1), c11), tr(cb, cc, ca)),
+      eq,
+    ));
+
+  it('moves row-spanning cells along with their column', () =>
+    ist(
+      move(table(tr(cCursor, c(1, 2)), tr(ca)), 1, 0),
+      table(tr(c(1, 2), c11), tr(ca)),
+      eq,
+    ));
+
+  it('refuses to cut through a column-spanning cell', () =>
+    ist(move(table(tr(cCursor, c(2, 1)), tr(ca, cb, cc)), 1, 0), null));
+});
+
+describe('moveSelectedRows', () => {
+  it('moves the selected row down', () =>
+    test(
+      table(tr(cCursor, ca), tr(cb, cc)),
+      moveSelectedRows(1),
+      table(tr(cb, cc), tr(c11, ca)),
+    ));
+
+  it('moves the selected row up', () =>
+    test(
+      table(tr(ca, cb), tr(cCursor, cc)),
+      moveSelectedRows(-1),
+      table(tr(c11, cc), tr(ca, cb)),
+    ));
+
+  it('does nothing at the edge of the table', () =>
+    test(table(tr(cCursor), tr(ca)), moveSelectedRows(-1), null));
+
+  it('skips over a row-spanning neighbour', () =>
+    test(
+      table(tr(cCursor, ca), tr(c(1, 2), cb), tr(cc)),
+      moveSelectedRows(1),
+      table(tr(c(1, 2), cb), tr(cc), tr(c11, ca)),
+    ));
+
+  it('keeps a row selection on the moved rows', () => {
+    const doc = table(tr(cAnchor, cHead), tr(ca, cb), tr(cc, cd));
+    let state = EditorState.create({ doc, selection: selectionFor(doc) });
+    moveSelectedRows(1)(state, (tr) => (state = state.apply(tr)));
+    ist(state.doc, table(tr(ca, cb), tr(c11, c11), tr(cc, cd)), eq);
+    const sel = state.selection as CellSelection;
+    ist(sel instanceof CellSelection);
+    ist(sel.isRowSelection());
+    ist(sel.$anchorCell.pos, 13);
+    ist(sel.$headCell.pos, 18);
+  });
+
+  it('keeps the cursor in the moved cell', () => {
+    const doc = table(tr(cCursor, ca), tr(cb, cc));
+    let state = EditorState.create({ doc, selection: selectionFor(doc) });
+    moveSelectedRows(1)(state, (tr) => (state = state.apply(tr)));
+    ist(state.selection.head, 16);
+    ist(state.doc.textBetween(0, state.selection.head), 'bcx');
+  });
+});
+
+describe('moveSelectedRowsTo', () => {
+  it('moves the selected rows to the given index', () =>
+    test(
+      table(tr(cAnchor), tr(cHead), tr(ca), tr(cb)),
+      moveSelectedRowsTo(2),
+      table(tr(ca), tr(cb), tr(c11), tr(c11)),
+    ));
+
+  it('refuses to split a row-spanning cell', () =>
+    test(
+      table(tr(cCursor, ca), tr(c(1, 2), cb), tr(cc)),
+      moveSelectedRowsTo(1),
+      null,
+    ));
+});
+
+describe('moveSelectedColumns', () => {
+  it('moves the selected column right', () =>
+    test(
+      table(tr(cCursor, ca), tr(cb, cc)),
+      moveSelectedColumns(1),
+      table(tr(ca, c11), tr(cc, cb)),
+    ));
+
+  it('moves the selected columns left', () =>
+    test(
+      table(tr(ca, cAnchor, c11), tr(cb, cc, cHead)),
+      moveSelectedColumns(-1),
+      table(tr(c11, c11, ca), tr(cc, c11, cb)),
+    ));
+
+  it('does nothing at the edge of the table', () =>
+    test(table(tr(ca, cCursor)), moveSelectedColumns(1), null));
+
+  it('keeps a column selection on the moved column', () => {
+    const doc = table(tr(cAnchor, ca), tr(cHead, cb));
+    let state = EditorState.create({ doc, selection: selectionFor(doc) });
+    moveSelectedColumns(1)(state, (tr) => (state = state.apply(tr)));
+    const sel = state.selection as CellSelection;
+    ist(sel instanceof CellSelection);
+    ist(sel.isColSelection());
+    ist(state.doc.nodeAt(sel.$anchorCell.pos)!.textContent, 'x');
+    ist(sel.$anchorCell.index(), 1);
+  });
+});
+
+describe('moveSelectedColumnsTo', () => {
+  it('moves the selected column to the given index', () =>
+    test(
+      table(tr(cAnchor, ca, cb), tr(cHead, cc, cd)),
+      moveSelectedColumnsTo(2),
+      table(tr(ca, cb, c11), tr(cc, cd, c11)),
+    ));
+
+  it('does nothing when the column stays in place', () =>
+    test(table(tr(cCursor, ca)), moveSelectedColumnsTo(0), null));
+});
+
+describe('sortTableByColumn', () => {
+  const cell = (text: string) => td(p(text));
+
+  it('sorts rows by the text in the given column', () =>
+    test(
+      table(tr(cell('b'), cCursor), tr(cell('c'), ca), tr(cell('a'), cb)),
+      sortTableByColumn(0),
+      table(tr(cell('a'), cb), tr(cell('b'), c11), tr(cell('c'), ca)),
+    ));
+
+  it('can sort in descending order', () =>
+    test(
+      table(tr(cCursor, cell('1')), tr(ca, cell('3')), tr(cb, cell('2'))),
+      sortTableByColumn(1, { direction: 'desc', compare: 'number' }),
+      table(tr(ca, cell('3')), tr(cb, cell('2')), tr(c11, cell('1'))),
+    ));
+
+  it('compares numbers by value', () =>
+    test(
+      table(tr(cell('10<cursor>')), tr(cell('9')), tr(cell('1,000'))),
+      sortTableByColumn(0, { compare: 'number' }),
+      table(tr(cell('9')), tr(cell('10')), tr(cell('1,000'))),
+    ));
+
+  it('keeps text that is not a number last when sorting descending', () =>
+    test(
+      table(
+        tr(cell('x<cursor>')),
+        tr(cell('n/a')),
+        tr(cell('5')),
+        tr(cell('10')),
+      ),
+      sortTableByColumn(0, { direction: 'desc', compare: 'number' }),
+      table(tr(cell('10')), tr(cell('5')), tr(cell('x')), tr(cell('n/a'))),
+    ));
+
+  it('keeps invalid dates last when sorting descending', () =>
+    test(
+      table(
+        tr(cell('never<cursor>')),
+        tr(cell('2025-12-31')),
+        tr(cell('2026-03-01')),
+      ),
+      sortTableByColumn(0, { direction: 'desc', compare: 'date' }),
+      table(tr(cell('2026-03-01')), tr(cell('2025-12-31')), tr(cell('never'))),
+    ));
+
+  it('sorts text that is not a number after numbers', () =>
+    test(
+      table(
+        tr(cell('1-2<cursor>')),
+        tr(cell('e-')),
+        tr(cell('$20')),
+        tr(cell('-3.5e1')),
+      ),
+      sortTableByColumn(0, { compare: 'number' }),
+      table(
+        tr(cell('-3.5e1')),
+        tr(cell('$20')),
+        tr(cell('1-2')),
+        tr(cell('e-')),
+      ),
+    ));
+
+  it('compares dates', () =>
+    test(
+      table(tr(cell('2026-03-01<cursor>')), tr(cell('2025-12-31'))),
+      sortTableByColumn(0, { compare: 'date' }),
+      table(tr(cell('2025-12-31')), tr(cell('2026-03-01'))),
+    ));
+
+  it('accepts a custom comparison function', () =>
+    test(
+      table(tr(cell('aa<cursor>')), tr(cell('b'))),
+      sortTableByColumn(0, { compare: (a, b) => a.length - b.length }),
+      table(tr(cell('b')), tr(cell('aa'))),
+    ));
+
+  it('keeps header rows at the top', () =>
+    test(
+      table(tr(th(p('z')), h11), tr(cell('b<cursor>'), c11), tr(ca, c11)),
+      sortTableByColumn(0),
+      table(tr(th(p('z')), h11), tr(ca, c11), tr(cell('b'), c11)),
+    ));
+
+  it('sorts empty cells to the bottom', () =>
+    test(
+      table(tr(cEmpty, cCursor), tr(cb, c11), tr(ca, c11)),
+      sortTableByColumn(0, { direction: 'desc' }),
+      table(tr(cb, c11), tr(ca, c11), tr(cEmpty, c11)),
+    ));
+
+  it('moves rows joined by a rowspan together', () =>
+    test(
+      table(tr(cc, c(1, 2)), tr(cCursor), tr(ca, c11)),
+      sortTableByColumn(0),
+      table(tr(ca, c11), tr(cc, c(1, 2)), tr(c11)),
+    ));
+
+  it('does nothing when the rows are already sorted', () =>
+    test(table(tr(ca), tr(cb), tr(cCursor)), sortTableByColumn(0), null));
+});
+
+describe('fillDown', () => {
+  it('copies the top row into the rows below it', () =>
+    test(
+      table(
+        tr(td(p('a<anchor>')), cb),
+        tr(cc, cd),
+        tr(cEmpty, td(p('<head>'))),
+      ),
+      fillDown,
+      table(tr(ca, cb), tr(ca, cb), tr(ca, cb)),
+    ));
+
+  it('keeps the attributes of the filled cells', () =>
+    test(
+      table(tr(td(p('a<anchor>'))), tr(td({ colwidth: [50] }, p('x<head>')))),
+      fillDown,
+      table(tr(ca), tr(td({ colwidth: [50] }, p('a')))),
+    ));
+
+  it('only fills the selected columns', () =>
+    test(
+      table(tr(ca, cAnchor), tr(cb, cHead)),
+      fillDown,
+      table(tr(ca, c11), tr(cb, c11)),
+    ));
+
+  it('does nothing for a single-row selection', () =>
+    test(table(tr(cAnchor, cHead), tr(ca, cb)), fillDown, null));
+
+  it('does nothing when the cells already hold the content', () =>
+    test(table(tr(cAnchor), tr(cHead)), fillDown, null));
+
+  it('does nothing without a cell selection', () =>
+    test(table(tr(cCursor), tr(ca)), fillDown, null));
+});
+
+describe('fillRight', () => {
+  it('copies the leftmost column into the columns to its right', () =>
+    test(
+      table(tr(td(p('a<anchor>')), cb, cc), tr(cd, cEmpty, td(p('<head>')))),
+      fillRight,
+      table(tr(ca, ca, ca), tr(cd, cd, cd)),
+    ));
+
+  it('does nothing for a single-column selection', () =>
+    test(table(tr(cAnchor, ca), tr(cHead, cb)), fillRight, null));
+});
+
+describe('fillSeries', () => {
+  const cell = (text: string) => td(p(text));
+
+  it('continues the series in each selected column', () =>
+    test(
+      table(
+        tr(td(p('1<anchor>')), cell('Mon')),
+        tr(cell('2'), td(p('Tue<head>'))),
+        tr(cEmpty, cEmpty),
+        tr(cEmpty, cEmpty),
+      ),
+      fillSeries('down', 2),
+      table(
+        tr(cell('1'), cell('Mon')),
+        tr(cell('2'), cell('Tue')),
+        tr(cell('3'), cell('Wed')),
+        tr(cell('4'), cell('Thu')),
+      ),
+    ));
+
+  it('grows the table when filling past its end', () =>
+    test(
+      table(tr(td(p('2026-01<cursor>')), cEmpty)),
+      fillSeries('right', 3),
+      table(
+        tr(cell('2026-01'), cell('2026-02'), cell('2026-03'), cell('2026-04')),
+      ),
+    ));
+
+  it('adds rows when filling down past the last row', () =>
+    test(
+      table(tr(td(p('7<cursor>')), ca)),
+      fillSeries('down', 1),
+      table(tr(cell('7'), ca), tr(cell('8'), cEmpty)),
+    ));
+
+  it('selects the original and the filled cells', () => {
+    const doc = table(tr(td(p('1<cursor>'))), tr(cEmpty), tr(cEmpty));
+    let state = EditorState.create({ doc, selection: selectionFor(doc) });
+    fillSeries('down', 2)(state, (tr) => (state = state.apply(tr)));
+    const sel = state.selection as CellSelection;
+    ist(sel instanceof CellSelection);
+    ist(state.doc.nodeAt(sel.$anchorCell.pos)!.textContent, '1');
+    ist(state.doc.nodeAt(sel.$headCell.pos)!.textContent, '3');
+  });
+});
+
+describe('insertTable', () => {
+  it('inserts an empty table after the cursor block', () =>
+    test(
+      doc(p('foo<cursor>')),
+      insertTable({ rows: 2, cols: 2 }),
+      doc(p('foo'), table(tr(cEmpty, cEmpty), tr(cEmpty, cEmpty))),
+    ));
+
+  it('splits the textblock around the cursor', () =>
+    test(
+      doc(p('fo<cursor>o')),
+      insertTable({ rows: 1, cols: 1 }),
+      doc(p('fo'), table(tr(cEmpty)), p('o')),
+    ));
+
+  it('can add a header row', () =>
+    test(
+      doc(p('<cursor>')),
+      insertTable({ rows: 2, cols: 1, withHeaderRow: true }),
+      doc(table(tr(th(p())), tr(cEmpty)), p()),
+    ));
+
+  it('fills the cells with the given content', () =>
+    test(
+      doc(p('<cursor>')),
+      insertTable({
+        rows: 1,
+        cols: 2,
+        cellContent: (_, col) => p(String(col)),
+      }),
+      doc(table(tr(td(p('0')), td(p('1')))), p()),
+    ));
+
+  it('puts the cursor in the first cell', () => {
+    const start = doc(p('x<cursor>'));
+    let state = EditorState.create({
+      doc: start,
+      selection: selectionFor(start),
+    });
+    insertTable()(state, (tr) => (state = state.apply(tr)));
+    ist(state.selection.from, 7);
+    ist(state.selection.$from.node(-1).type.name, 'table_cell');
+  });
+});
+
+describe('textToTable', () => {
+  function testRange(doc: TaggedNode, command: Command, result: Node) {
+    let state = EditorState.create({
+      doc,
+      selection: TextSelection.create(doc, doc.tag.from, doc.tag.to),
+    });
+    command(state, (tr) => (state = state.apply(tr)));
+    ist(state.doc, result, eq);
+  }
+
+  it('turns the selected paragraphs into rows', () =>
+    testRange(
+      doc(p('<from>a\tb'), p('c\td<to>'), p('e')),
+      textToTable(),
+      doc(
+        table(tr(td(p('a')), td(p('b'))), tr(td(p('c')), td(p('d')))),
+        p('e'),
+      ),
+    ));
+
+  it('splits on a custom delimiter and pads short rows', () =>
+    testRange(
+      doc(p('<from>a,b,c'), p('d<to>')),
+      textToTable({ delimiter: /\s*,\s*/ }),
+      doc(
+        table(
+          tr(td(p('a')), td(p('b')), td(p('c'))),
+          tr(td(p('d')), cEmpty, cEmpty),
+        ),
+      ),
+    ));
+
+  it('converts the paragraph around the cursor', () =>
+    test(
+      doc(p('a\tb<cursor>')),
+      textToTable(),
+      doc(table(tr(td(p('a')), td(p('b'))))),
+    ));
+});
+
+describe('tableToText', () => {
+  it('turns each row into a delimited paragraph', () =>
+    test(
+      doc(p('x'), table(tr(td(p('a<cursor>')), cb), tr(cc, cd))),
+      tableToText({ delimiter: ', ' }),
+      doc(p('x'), p('a, b'), p('c, d')),
+    ));
+
+  it('keeps fields aligned around spanning cells', () =>
+    test(
+      doc(table(tr(td({ rowspan: 2 }, p('a<cursor>')), cb), tr(cc))),
+      tableToText(),
+      doc(p('a\tb'), p('\tc')),
+    ));
+
+  it('does nothing outside a table', () =>
+    test(doc(p('a<cursor>')), tableToText(), null));
+});
@@ -5,21 +5,29 @@ import { describe, it } from 'vitest';
 
 import {
   cellAround,
+  CellSelection,
+  __cellsToText as cellsToText,
+  __clipboardSerializer as clipboardSerializer,
   TableMap,
   __clipCells as clipCells,
   __insertCells as insertCells,
   __pastedCells as pastedCells,
+  __textCells as textCells,
+  pasteCells,
+  PasteCellsOptions,
 } from '../src/';
 import {
   c,
   c11,
   cAnchor,
+  cCursor,
   cEmpty,
   doc,
   eq,
   h11,
   hEmpty,
   p,
+  selectionFor,
   table,
   TaggedNode,
   td,
@@ -94,6 +102,102 @@ describe('pastedCells', () => {
     test(doc(p('foo<a>bar'), p('baz<b>')), null, null, null));
 });
 
+describe('textCells', () => {
+  const schema = cEmpty.type.schema;
+
+  function test(text: string, content: Node[][] | null, delimiter?: string) {
+    const result = textCells(schema, text, delimiter);
+    if (!content) return ist(result, null);
+    if (!result) throw new Error("Can't paste cells");
+    ist(result.height, content.length);
+    ist(result.width, content[0].length);
+    result.rows.forEach((row, i) => ist(row, Fragment.from(content[i]), eq));
+  }
+
+  it('splits tab-separated lines into cells', () =>
+    test('a\tb\r\nc\td\r\n', [
+      [td(p('a')), td(p('b'))],
+      [td(p('c')), td(p('d'))],
+    ]));
+
+  it('pads short rows and keeps empty fields', () =>
+    test('a\t\tc\nd', [
+      [td(p('a')), cEmpty, td(p('c'))],
+      [td(p('d')), cEmpty, cEmpty],
+    ]));
+
+  it('handles quoted fields', () =>
+    test('"a\tb"\t"say ""hi"""\n"x\ny"', [
+      [td(p('a\tb')), td(p('say "hi"'))],
+      [td(p('x'), p('y')), cEmpty],
+    ]));
+
+  it('supports other delimiters', () =>
+    test('a,"b,c"', [[td(p('a')), td(p('b,c'))]], ','));
+
+  it('returns null for a single field', () => test('just text\n', null));
+});
+
+describe('cellsToText', () => {
+  function test(doc: TaggedNode, text: string) {
+    const sel = new CellSelection(
+      cellAround(doc.resolve(doc.tag.anchor))!,
+      cellAround(doc.resolve(doc.tag.head))!,
+    );
+    ist(cellsToText(sel.content()), text);
+  }
+
+  it('writes one tab-separated line per row', () =>
+    test(
+      table(
+        tr(td(p('<anchor>a')), td(p('b'))),
+        tr(td(p('c')), td(p('d<head>'))),
+      ),
+      'a\tb\nc\td',
+    ));
+
+  it('flattens cells and quotes fields when needed', () =>
+    test(
+      table(tr(td(p('<anchor>a'), p('b')), td(p('say "hi"<head>')))),
+      'a b\t"say ""hi"""',
+    ));
+
+  it('leaves slots covered by spanning cells empty', () =>
+    test(
+      table(
+        tr(td({ rowspan: 2 }, p('<anchor>a')), cEmpty),
+        tr(td(p('c<head>'))),
+      ),
+      'a\t\n\tc',
+    ));
+
+  it('returns an empty string for other content', () =>
+    ist(cellsToText(doc(p('a'), p('b')).slice(1, 5)), ''));
+});
+
+describe('clipboardSerializer', () => {
+  it('renders tables as a bare table with a body', () => {
+    const node = table(tr(td(p('a'))));
+    const dom = clipboardSerializer(node.type.schema).serializeNode(node);
+    ist(
+      (dom as HTMLElement).outerHTML,
+      '<table><tbody><tr><td><p>a</p></td></tr></tbody></table>',
+    );
+  });
+
+  it('renders cell formatting as inline styles', () => {
+    const node = td(
+      { alignment: 'center', verticalAlign: 'top', background: 'red' },
+      p('a'),
+    );
+    const dom = clipboardSerializer(node.type.schema).serializeNode(node);
+    ist(
+      (dom as HTMLElement).getAttribute('style'),
+      'text-align: center; vertical-align: top; background-color: red;',
+    );
+  });
+});
+
 describe('clipCells', () => {
   function test(
     slice: TaggedNode,
@@ -273,3 +377,102 @@ describe('insertCells', () => {
       ),
     ));
 });
+
+describe('pasteCells', () => {
+  function test(
+    doc: TaggedNode,
+    cells: TaggedNode,
+    options: PasteCellsOptions,
+    result: TaggedNode,
+  ) {
+    let state = EditorState.create({ doc, selection: selectionFor(doc) });
+    const area = pastedCells(cells.slice(cells.tag.a, cells.tag.b))!;
+    pasteCells(area, options)(state, (tr) => (state = state.apply(tr)));
+    ist(state.doc, result, eq);
+  }
+
+  const ca = td(p('a')),
+    cb = td(p('b')),
+    cc = td(p('c')),
+    cd = td(p('d'));
+
+  it('overwrites the target cells by default', () =>
+    test(
+      table(tr(cCursor, td({ colwidth: [80] }, p('y')))),
+      table('<a>', tr(ca, cb), '<b>'),
+      { mode: 'overwrite' },
+      table(tr(ca, cb)),
+    ));
+
+  it('keeps target attributes when pasting values only', () =>
+    test(
+      table(tr(cCursor, td({ colwidth: [80], test: 'x' }, p('y')))),
+      table('<a>', tr(ca, td({ test: 'z' }, p('b'))), '<b>'),
+      { mode: 'valuesOnly' },
+      table(tr(ca, td({ colwidth: [80], test: 'x' }, p('b')))),
+    ));
+
+  it('grows the table when pasting values past its end', () =>
+    test(
+      table(tr(cCursor)),
+      table('<a>', tr(ca), tr(cb), '<b>'),
+      { mode: 'valuesOnly' },
+      table(tr(ca), tr(cb)),
+    ));
+
+  it('swaps rows and columns when transposing', () =>
+    test(
+      table(tr(cCursor, c11), tr(c11, c11)),
+      table('<a>', tr(ca, cb), tr(cc, cd), '<b>'),
+      { mode: 'transpose' },
+      table(tr(ca, cc), tr(cb, cd)),
+    ));
+
+  it('transposes spans', () =>
+    test(
+      table(tr(cCursor, c11), tr(c11, c11)),
+      table('<a>', tr(td({ colspan: 2 }, p('a'))), tr(cc, cd), '<b>'),
+      { mode: 'transpose' },
+      table(tr(td({ rowspan: 2 }, p('a')), cc), tr(cd)),
+    ));
+
+  it('leaves targets alone where the pasted cell is empty', () =>
+    test(
+      table(tr(cCursor, td(p('y')), td(p('z')))),
+      table('<a>', tr(ca, cEmpty, cc), '<b>'),
+      { mode: 'skipEmpty' },
+      table(tr(ca, td(p('y')), cc)),
+    ));
+
+  it('keeps target attributes when skipping empty cells', () =>
+    test(
+      table(tr(cCursor, td({ test: 'x' }, p('y')))),
+      table('<a>', tr(cEmpty, td({ test: 'z' }, p('b'))), '<b>'),
+      { mode: 'skipEmpty' },
+      table(tr(c11, td({ test: 'x' }, p('b')))),
+    ));
+
+  it('can insert rows instead of overwriting', () =>
+    test(
+      table(tr(cc, cd), tr(cCursor, c11)),
+      table('<a>', tr(ca), '<b>'),
+      { insert: 'rows' },
+      table(tr(cc, cd), tr(ca, cEmpty), tr(c11, c11)),
+    ));
+
+  it('can insert columns instead of overwriting', () =>
+    test(
+      table(tr(cCursor, cc), tr(c11, cd)),
+      table('<a>', tr(ca, cb), '<b>'),
+      { insert: 'columns' },
+      table(tr(ca, cb, c11, cc), tr(cEmpty, cEmpty, c11, cd)),
+    ));
+
+  it('inserts rows for values-only pastes too', () =>
+    test(
+      table(tr(cCursor)),
+      table('<a>', tr(ca), tr(cb), '<b>'),
+      { mode: 'valuesOnly', insert: 'rows' },
+      table(tr(ca), tr(cb), tr(c11)),
+    ));
+});
@@ -0,0 +1,103 @@
+import ist from 'ist';
+import { describe, expect, it } from 'vitest';
+
+import { dataToTable, tableToData } from '../src/';
+import { c, cEmpty, eq, p, table, td, th, tr } from './build';
+
+const schema = table().type.schema;
+
+const people = table(
+  tr(th(p('name')), th(p('age'))),
+  tr(td(p('Ann')), td(p('31'))),
+  tr(td(p('Bob, Jr.')), td(p('say "hi"'))),
+);
+
+describe('tableToData', () => {
+  it('produces CSV by default', () =>
+    ist(tableToData(people), 'name,age\nAnn,31\n"Bob, Jr.","say ""hi"""'));
+
+  it('can produce TSV', () =>
+    ist(
+      tableToData(people, { format: 'tsv' }),
+      'name\tage\nAnn\t31\nBob, Jr.\t"say ""hi"""',
+    ));
+
+  it('leaves slots covered by spanning cells empty', () =>
+    ist(
+      tableToData(table(tr(c(2, 1)), tr(td(p('a')), cEmpty)), {
+        format: 'tsv',
+      }),
+      'x\t\na\t',
+    ));
+
+  it('produces objects keyed by header text in JSON mode', () =>
+    expect(tableToData(people, { format: 'json' })).toEqual([
+      { name: 'Ann', age: '31' },
+      { name: 'Bob, Jr.', age: 'say "hi"' },
+    ]));
+
+  it('produces arrays in JSON mode without a header row', () =>
+    expect(
+      tableToData(table(tr(td(p('a')), td(p('b')))), { format: 'json' }),
+    ).toEqual([['a', 'b']]));
+
+  it('gives columns with duplicate or empty headers their own keys', () =>
+    expect(
+      tableToData(
+        table(
+          tr(th(p('a')), th(p('a')), th({ colspan: 2 }, p()), th(p('a'))),
+          tr(td(p('1')), td(p('2')), td(p('3')), td(p('4')), td(p('5'))),
+        ),
+        { format: 'json' },
+      ),
+    ).toEqual([{ a: '1', 'a 2': '2', '2': '3', '3': '4', 'a 3': '5' }]));
+
+  it('can be told that the first row is a header', () =>
+    expect(
+      tableToData(table(tr(td(p('k'))), tr(td(p('v')))), {
+        format: 'json',
+        headerRow: true,
+      }),
+    ).toEqual([{ k: 'v' }]));
+
+  it('can be told that the first row is not a header', () =>
+    expect(
+      tableToData(people, { format: 'json', headerRow: false }),
+    ).toHaveLength(3));
+});
+
+describe('dataToTable', () => {
+  it('creates rows from arrays', () =>
+    ist(
+      dataToTable(schema, [['a', 1], ['b']]),
+      table(tr(td(p('a')), td(p('1'))), tr(td(p('b')), cEmpty)),
+      eq,
+    ));
+
+  it('can make the first array a header row', () =>
+    ist(
+      dataToTable(schema, [['k'], ['v']], { headerRow: true }),
+      table(tr(th(p('k'))), tr(td(p('v')))),
+      eq,
+    ));
+
+  it('adds a header row for objects', () =>
+    ist(
+      dataToTable(schema, [{ a: 1 }, { b: 'x\ny', a: null }]),
+      table(
+        tr(th(p('a')), th(p('b'))),
+        tr(td(p('1')), cEmpty),
+        tr(cEmpty, td(p('x'), p('y'))),
+      ),
+      eq,
+    ));
+
+  it('returns null without data', () => ist(dataToTable(schema, []), null));
+
+  it('is the inverse of JSON output', () =>
+    ist(
+      dataToTable(schema, tableToData(people, { format: 'json' })),
+      people,
+      eq,
+    ));
+});
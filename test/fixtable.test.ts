@@ -119,6 +119,22 @@ describe('fixTable', () => {
     );
   });
 
+  it('repairs column widths in a single transaction', () => {
+    const state = EditorState.create({
+      doc: doc(table(tr(cw100, c(2, 1)), tr(c11, c11, cw200))),
+    });
+    const fixed = fixTables(state)!;
+    ist(fixed.steps.length, 2);
+    ist(
+      fixed.doc.firstChild,
+      table(
+        tr(cw100, td({ colspan: 2, colwidth: [0, 200] }, p('x'))),
+        tr(cw100, c11, cw200),
+      ),
+      eq,
+    );
+  });
+
   it('respects table role when inserting a cell', () => {
     ist(
       fix(table(tr(h11), tr(c11, c11), tr(c(3, 1)))),
@@ -1,15 +1,29 @@
+import { Fragment, Slice } from 'prosemirror-model';
 import { Command, EditorState } from 'prosemirror-state';
 import { describe, expect, it } from 'vitest';
 
 import { EditorView } from 'prosemirror-view';
-import { arrow } from '../src/input';
+import {
+  HandlePasteOptions,
+  arrow,
+  handleCopy,
+  handleCut,
+  handlePaste,
+} from '../src/input';
+import { CellSelection, PasteTableBehavior, tableEditing } from '../src/';
 import {
   TaggedNode,
   c11,
+  cAnchor,
   cCursor,
   cCursorBefore,
+  cEmpty,
+  cHead,
+  eq,
+  p,
   selectionFor,
   table,
+  td,
   tr,
 } from './build';
 
@@ -62,3 +76,224 @@ describe('arrow', () => {
       table(tr(c11, c11, c11), tr(c11, cCursorBefore, c11), tr(c11, c11, c11)),
     ));
 });
+
+function clipboardEvent() {
+  const data: Record<string, string> = {};
+  const result = {
+    data,
+    prevented: false,
+    event: {
+      clipboardData: {
+        clearData: () => Object.keys(data).forEach((key) => delete data[key]),
+        setData: (type: string, value: string) => (data[type] = value),
+      },
+      preventDefault: () => (result.prevented = true),
+    } as unknown as ClipboardEvent,
+  };
+  return result;
+}
+
+describe('handleCopy', () => {
+  function copy(doc: TaggedNode) {
+    const view = new EditorView(document.createElement('div'), {
+      state: EditorState.create({ doc, selection: selectionFor(doc) }),
+    });
+    const clipboard = clipboardEvent();
+    const handled = handleCopy(view, clipboard.event);
+    return { handled, ...clipboard, doc: view.state.doc };
+  }
+
+  it('puts the cells on the clipboard and leaves them alone', () => {
+    const before = table(
+      tr(td(p('a<anchor>')), td(p('b<head>'))),
+      tr(c11, c11),
+    );
+    const { handled, prevented, data, doc } = copy(before);
+    expect(handled).toBe(true);
+    expect(prevented).toBe(true);
+    expect(data['text/plain']).toBe('a\tb');
+    expect(data['text/html']).toBe(
+      '<table data-pm-slice="1 1 -2 []"><tbody><tr><td><p>a</p></td><td><p>b</p></td></tr></tbody></table>',
+    );
+    expect(eq(doc, before)).toBe(true);
+  });
+
+  it('leaves other selections to the editor', () =>
+    expect(copy(table(tr(cCursor))).handled).toBe(false));
+});
+
+describe('copying and pasting cells', () => {
+  function roundTrip(onPasteTable: PasteTableBehavior) {
+    const doc = table(tr(td(p('a<anchor>')), td(p('b<head>'))), tr(c11, c11));
+    const view = new EditorView(document.createElement('div'), {
+      state: EditorState.create({
+        doc,
+        selection: selectionFor(doc),
+        plugins: [tableEditing({ onPasteTable })],
+      }),
+    });
+    const clipboard = clipboardEvent();
+    handleCopy(view, clipboard.event);
+    view.dispatch(
+      view.state.tr.setSelection(CellSelection.create(view.state.doc, 13, 18)),
+    );
+    const event = {
+      clipboardData: { getData: (type: string) => clipboard.data[type] || '' },
+    } as unknown as ClipboardEvent;
+    view.pasteHTML(clipboard.data['text/html'], event);
+    return view.state.doc;
+  }
+
+  const pasted = table(tr(td(p('a')), td(p('b'))), tr(td(p('a')), td(p('b'))));
+
+  for (const mode of ['merge', 'flatten', 'nest'] as const)
+    it(`pastes a copied cell range as cells with onPasteTable: '${mode}'`, () =>
+      expect(eq(roundTrip(mode), pasted)).toBe(true));
+
+  it('pastes a copied cell range without calling an onPasteTable callback', () => {
+    let called = false;
+    const doc = roundTrip(() => (called = true));
+    expect(called).toBe(false);
+    expect(eq(doc, pasted)).toBe(true);
+  });
+});
+
+describe('handleCut', () => {
+  function cut(doc: TaggedNode, removeLines = false) {
+    const view = new EditorView(document.createElement('div'), {
+      state: EditorState.create({ doc, selection: selectionFor(doc) }),
+    });
+    const clipboard = clipboardEvent();
+    const handled = handleCut(view, clipboard.event, removeLines);
+    return { handled, ...clipboard, doc: view.state.doc };
+  }
+
+  it('puts the cells on the clipboard and clears them', () => {
+    const { handled, prevented, data, doc } = cut(
+      table(tr(td(p('a<anchor>')), td(p('b<head>'))), tr(c11, c11)),
+    );
+    expect(handled).toBe(true);
+    expect(prevented).toBe(true);
+    expect(data['text/plain']).toBe('a\tb');
+    expect(data['text/html']).toContain('<tr><td><p>a</p></td>');
+    expect(eq(doc, table(tr(cEmpty, cEmpty), tr(c11, c11)))).toBe(true);
+  });
+
+  it('can remove whole rows', () => {
+    const { doc } = cut(table(tr(cAnchor, cHead), tr(c11, cEmpty)), true);
+    expect(eq(doc, table(tr(c11, cEmpty)))).toBe(true);
+  });
+
+  it('clears the cells of rows when not asked to remove them', () => {
+    const { doc } = cut(table(tr(cAnchor, cHead), tr(c11, c11)));
+    expect(eq(doc, table(tr(cEmpty, cEmpty), tr(c11, c11)))).toBe(true);
+  });
+
+  it('leaves other selections to the editor', () =>
+    expect(cut(table(tr(cCursor))).handled).toBe(false));
+});
+
+describe('handlePaste', () => {
+  const pasted = table(tr(td(p('a')), td(p('b'))), tr(td(p('c')), cEmpty));
+
+  function paste(
+    doc: TaggedNode,
+    options?: HandlePasteOptions,
+    slice = new Slice(Fragment.from(pasted), 0, 0),
+    data: Record<string, string> = {},
+  ) {
+    const view = new EditorView(document.createElement('div'), {
+      state: EditorState.create({ doc, selection: selectionFor(doc) }),
+    });
+    const event = {
+      clipboardData: { getData: (type: string) => data[type] || '' },
+    } as unknown as ClipboardEvent;
+    const handled = handlePaste(view, event, slice, options);
+    return { handled, doc: view.state.doc };
+  }
+
+  it('merges pasted tables by default', () => {
+    const { handled, doc } = paste(table(tr(cCursor, c11), tr(c11, c11)));
+    expect(handled).toBe(true);
+    expect(
+      eq(doc, table(tr(td(p('a')), td(p('b'))), tr(td(p('c')), cEmpty))),
+    ).toBe(true);
+  });
+
+  it('leaves nested tables to the editor', () =>
+    expect(paste(table(tr(cCursor)), { onPasteTable: 'nest' }).handled).toBe(
+      false,
+    ));
+
+  it('can flatten a pasted table into the cell', () => {
+    const { handled, doc } = paste(table(tr(td(p('x<cursor>')), c11)), {
+      onPasteTable: 'flatten',
+    });
+    expect(handled).toBe(true);
+    expect(eq(doc, table(tr(td(p('xa b'), p('c')), c11)))).toBe(true);
+  });
+
+  it('flattens into the anchor cell of a cell selection', () => {
+    const { doc } = paste(table(tr(cAnchor, cHead)), {
+      onPasteTable: 'flatten',
+    });
+    expect(eq(doc, table(tr(td(p('a b'), p('c')), c11)))).toBe(true);
+  });
+
+  it('lets a callback handle the pasted table', () => {
+    let seen = null;
+    const { handled, doc } = paste(table(tr(cCursor)), {
+      onPasteTable: (_, node) => ((seen = node), true),
+    });
+    expect(handled).toBe(true);
+    expect(seen).toBe(pasted);
+    expect(eq(doc, table(tr(c11)))).toBe(true);
+  });
+
+  it('merges the table when the callback declines', () => {
+    const { doc } = paste(table(tr(cCursor)), { onPasteTable: () => false });
+    expect(
+      eq(doc, table(tr(td(p('a')), td(p('b'))), tr(td(p('c')), cEmpty))),
+    ).toBe(true);
+  });
+
+  it('spreads tab-separated plain text over cells', () => {
+    const { handled, doc } = paste(
+      table(tr(cCursor, c11), tr(c11, c11)),
+      {},
+      new Slice(Fragment.from(p('a\tb')), 1, 1),
+      { 'text/plain': 'a\tb\nc\td' },
+    );
+    expect(handled).toBe(true);
+    expect(
+      eq(doc, table(tr(td(p('a')), td(p('b'))), tr(td(p('c')), td(p('d'))))),
+    ).toBe(true);
+  });
+
+  it('keeps formatted HTML content that contains tabs', () => {
+    const schema = pasted.type.schema;
+    const code = schema.nodes.code_block.create(null, schema.text('a\tb'));
+    const { handled, doc } = paste(
+      table(tr(cAnchor, c11), tr(c11, cHead)),
+      {},
+      new Slice(Fragment.from(code), 0, 0),
+      { 'text/plain': 'a\tb', 'text/html': '<pre>a\tb</pre>' },
+    );
+    expect(handled).toBe(true);
+    expect(eq(doc, table(tr(td(code), td(code)), tr(td(code), td(code))))).toBe(
+      true,
+    );
+  });
+
+  it('leaves formatted HTML pasted into a cell to the editor', () => {
+    const schema = pasted.type.schema;
+    const code = schema.nodes.code_block.create(null, schema.text('a\tb'));
+    const { handled } = paste(
+      table(tr(cCursor, c11)),
+      {},
+      new Slice(Fragment.from(code), 0, 0),
+      { 'text/plain': 'a\tb', 'text/html': '<pre>a\tb</pre>' },
+    );
+    expect(handled).toBe(false);
+  });
+});
@@ -0,0 +1,113 @@
+import ist from 'ist';
+import { describe, it } from 'vitest';
+
+import { markdownToTable, tableToMarkdown } from '../src/';
+import { c, cEmpty, eq, p, table, td, th, tr } from './build';
+
+describe('tableToMarkdown', () => {
+  it('uses the first row as header', () =>
+    ist(
+      tableToMarkdown(
+        table(tr(th(p('a')), th(p('b'))), tr(td(p('1')), td(p('2')))),
+      ),
+      '| a | b |\n| --- | --- |\n| 1 | 2 |',
+    ));
+
+  it('escapes pipes', () =>
+    ist(
+      tableToMarkdown(table(tr(td(p('a|b'))), tr(cEmpty))),
+      '| a\\|b |\n| --- |\n|  |',
+    ));
+
+  it('joins paragraphs with line breaks', () =>
+    ist(
+      tableToMarkdown(table(tr(td(p('one'), p('two'))))),
+      '| one<br>two |\n| --- |',
+    ));
+
+  it('leaves slots covered by spanning cells empty', () =>
+    ist(
+      tableToMarkdown(table(tr(c(2, 1)), tr(td(p('a')), td(p('b'))))),
+      '| x |  |\n| --- | --- |\n| a | b |',
+    ));
+
+  it('emits alignment markers', () =>
+    ist(
+      tableToMarkdown(
+        table(
+          tr(
+            td({ alignment: 'left' }, p('x')),
+            td({ alignment: 'center' }, p('x')),
+            td({ alignment: 'right' }, p('x')),
+            td(p('x')),
+          ),
+        ),
+      ),
+      '| x | x | x | x |\n| :--- | :---: | ---: | --- |',
+    ));
+});
+
+describe('markdownToTable', () => {
+  const schema = table().type.schema;
+
+  it('treats the first line as header row', () =>
+    ist(
+      markdownToTable(schema, '| a | b |\n| --- | --- |\n| 1 | 2 |'),
+      table(tr(th(p('a')), th(p('b'))), tr(td(p('1')), td(p('2')))),
+      eq,
+    ));
+
+  it('handles missing outer pipes and delimiter rows', () =>
+    ist(
+      markdownToTable(schema, 'a | b\n1 | 2'),
+      table(tr(th(p('a')), th(p('b'))), tr(td(p('1')), td(p('2')))),
+      eq,
+    ));
+
+  it('pads and cuts rows to the header width', () =>
+    ist(
+      markdownToTable(schema, '| a | b |\n|---|---|\n| 1 |\n| 1 | 2 | 3 |'),
+      table(
+        tr(th(p('a')), th(p('b'))),
+        tr(td(p('1')), cEmpty),
+        tr(td(p('1')), td(p('2'))),
+      ),
+      eq,
+    ));
+
+  it('unescapes pipes and splits line breaks', () =>
+    ist(
+      markdownToTable(schema, '| a\\|b |\n| --- |\n| one<br/>two |'),
+      table(tr(th(p('a|b'))), tr(td(p('one'), p('two')))),
+      eq,
+    ));
+
+  it('returns null for empty text', () =>
+    ist(markdownToTable(schema, '\n  \n'), null));
+
+  it('returns null for text without table rows', () => {
+    ist(markdownToTable(schema, 'just some text'), null);
+    ist(markdownToTable(schema, 'a \\| b\n| c |'), null);
+  });
+
+  it('reads alignment markers', () =>
+    ist(
+      markdownToTable(schema, '| a | b |\n| :-- | :-: |\n| 1 | 2 |'),
+      table(
+        tr(
+          th({ alignment: 'left' }, p('a')),
+          th({ alignment: 'center' }, p('b')),
+        ),
+        tr(
+          td({ alignment: 'left' }, p('1')),
+          td({ alignment: 'center' }, p('2')),
+        ),
+      ),
+      eq,
+    ));
+
+  it('round-trips through tableToMarkdown', () => {
+    const text = '| a | b\\|c |\n| :--- | ---: |\n| 1<br>2 | 3 |';
+    ist(tableToMarkdown(markdownToTable(schema, text)!), text);
+  });
+});
@@ -0,0 +1,139 @@
+import ist from 'ist';
+import { DOMParser, DOMSerializer } from 'prosemirror-model';
+import { describe, it } from 'vitest';
+
+import { normalizeTableHTML } from '../src/';
+import { eq, p, table, td, th, tr } from './build';
+
+function parse(html: string) {
+  const dom = document.createElement('div');
+  dom.innerHTML = normalizeTableHTML(html);
+  return DOMParser.fromSchema(table().type.schema).parse(dom).firstChild!;
+}
+
+describe('normalizeTableHTML', () => {
+  it('leaves HTML without tables alone', () =>
+    ist(
+      normalizeTableHTML('<p style="mso-x: 1">a</p>'),
+      '<p style="mso-x: 1">a</p>',
+    ));
+
+  it('merges row groups into a single body', () =>
+    ist(
+      normalizeTableHTML(
+        '<table><tfoot><tr><td>f</td></tr></tfoot><tbody><tr><td>b</td></tr></tbody>' +
+          '<thead><tr><td>h</td></tr></thead></table>',
+      ),
+      '<table><tbody><tr><th>h</th></tr><tr><td>b</td></tr><tr><td>f</td></tr></tbody></table>',
+    ));
+
+  it('turns head rows into header cells', () =>
+    ist(
+      parse(
+        '<table><thead><tr><th>a</th><td>b</td></tr></thead>' +
+          '<tbody><tr><td>1</td><td>2</td></tr></tbody></table>',
+      ),
+      table(tr(th(p('a')), th(p('b'))), tr(td(p('1')), td(p('2')))),
+      eq,
+    ));
+
+  it('reduces captions to their text', () =>
+    ist(
+      normalizeTableHTML(
+        '<table><caption><b>Cap</b></caption><tr><td>a</td></tr></table>',
+      ),
+      '<table><caption>Cap</caption><tbody><tr><td>a</td></tr></tbody></table>',
+    ));
+
+  it('reads captions into the table attributes', () =>
+    ist(
+      parse('<table><caption> Cap </caption><tr><td>a</td></tr></table>'),
+      table({ caption: 'Cap' }, tr(td(p('a')))),
+      eq,
+    ));
+
+  it('round-trips tables serialized by the schema', () => {
+    const node = table(
+      { caption: 'Cap', alignment: 'center', layout: 'fixed' },
+      tr(td(p('a'))),
+    );
+    const dom = document.createElement('div');
+    dom.appendChild(
+      DOMSerializer.fromSchema(node.type.schema).serializeNode(node),
+    );
+    ist(parse(dom.innerHTML), node, eq);
+  });
+
+  it('puts column widths on cells', () =>
+    ist(
+      parse(
+        '<table><colgroup><col width="100"><col span="2" style="width: 30pt">' +
+          '</colgroup><tr><td rowspan="2">a</td><td colspan="2">b</td></tr>' +
+          '<tr><td>c</td><td>d</td></tr></table>',
+      ),
+      table(
+        tr(
+          td({ rowspan: 2, colwidth: [100] }, p('a')),
+          td({ colspan: 2, colwidth: [40, 40] }, p('b')),
+        ),
+        tr(td({ colwidth: [40] }, p('c')), td({ colwidth: [40] }, p('d'))),
+      ),
+      eq,
+    ));
+
+  it('removes mso styles', () =>
+    ist(
+      normalizeTableHTML(
+        '<table style="mso-table-layout-alt: fixed"><tr>' +
+          '<td style="mso-border-alt: solid; color: red">a</td></tr></table>',
+      ),
+      '<table><tbody><tr><td style="color: red">a</td></tr></tbody></table>',
+    ));
+
+  it('empties filler cells', () =>
+    ist(
+      normalizeTableHTML(
+        '<table><tr><td><p class="MsoNormal">&nbsp;</p></td><td>a</td></tr></table>',
+      ),
+      '<table><tbody><tr><td></td><td>a</td></tr></tbody></table>',
+    ));
+
+  it('drops empty spacer rows', () =>
+    ist(
+      parse(
+        '<table><tr><td rowspan="3">a</td><td>b</td></tr>' +
+          '<tr style="display: none"><td>&nbsp;</td></tr>' +
+          '<tr><td>c</td></tr><tr></tr></table>',
+      ),
+      table(tr(td({ rowspan: 2 }, p('a')), td(p('b'))), tr(td(p('c')))),
+      eq,
+    ));
+
+  it('keeps visible empty rows', () =>
+    ist(
+      parse('<table><tr><td>a</td></tr><tr><td></td></tr></table>'),
+      table(tr(td(p('a'))), tr(td(p()))),
+      eq,
+    ));
+
+  it('keeps cell formatting', () =>
+    ist(
+      parse(
+        '<table><tr><td style="mso-pattern: auto; background: yellow; ' +
+          'text-align: right; vertical-align: bottom">a</td></tr></table>',
+      ),
+      table(
+        tr(
+          td(
+            {
+              alignment: 'right',
+              verticalAlign: 'bottom',
+              background: 'yellow',
+            },
+            p('a'),
+          ),
+        ),
+      ),
+      eq,
+    ));
+});
@@ -0,0 +1,113 @@
+import ist from 'ist';
+import { EditorState } from 'prosemirror-state';
+import { DecorationSet } from 'prosemirror-view';
+import { describe, it } from 'vitest';
+
+import {
+  canMoveTableLines,
+  dropDecorations,
+  ReorderDragging,
+} from '../src/reordering';
+import { TableMap } from '../src/tablemap';
+import { tableReordering, tableReorderingPluginKey } from '../src/';
+import { c, c11, doc, p, table, tr } from './build';
+
+const rowDrag: ReorderDragging = {
+  axis: 'row',
+  tableStart: 1,
+  from: 0,
+  count: 1,
+  drop: null,
+};
+
+function positions(set: DecorationSet): number[] {
+  return set.find().map((deco) => deco.from);
+}
+
+function classes(set: DecorationSet): string[] {
+  return set.find().map((deco) => deco.spec.key);
+}
+
+describe('tableReordering', () => {
+  const state = () =>
+    EditorState.create({
+      doc: doc(table(tr(c11, c11), tr(c11, c11))),
+      plugins: [tableReordering()],
+    });
+
+  it('starts without a drag', () =>
+    ist(tableReorderingPluginKey.getState(state()), null));
+
+  it('tracks the drag set through transaction metadata', () => {
+    const next = state().apply(
+      state().tr.setMeta(tableReorderingPluginKey, { ...rowDrag, drop: 2 }),
+    );
+    ist(tableReorderingPluginKey.getState(next)!.drop, 2);
+  });
+
+  it('drops the drag when the document changes', () => {
+    let current = state();
+    current = current.apply(
+      current.tr.setMeta(tableReorderingPluginKey, rowDrag),
+    );
+    current = current.apply(current.tr.insertText('y', 4));
+    ist(tableReorderingPluginKey.getState(current), null);
+  });
+});
+
+describe('dropDecorations', () => {
+  const state = EditorState.create({
+    doc: doc(table(tr(c11, c11), tr(c11, c11))),
+  });
+
+  it('draws a line above the row the drop lands on', () => {
+    const set = dropDecorations(state, { ...rowDrag, drop: 1 });
+    ist(positions(set).join(), '15,20');
+    ist(classes(set)[0], 'drop-indicator drop-indicator-top');
+  });
+
+  it('draws a line below the last row when dropping at the end', () => {
+    const set = dropDecorations(state, { ...rowDrag, drop: 2 });
+    ist(positions(set).join(), '15,20');
+    ist(classes(set)[0], 'drop-indicator drop-indicator-bottom');
+  });
+
+  it('draws a line left of the column the drop lands on', () => {
+    const set = dropDecorations(state, {
+      ...rowDrag,
+      axis: 'column',
+      drop: 0,
+    });
+    ist(positions(set).join(), '3,15');
+    ist(classes(set)[1], 'drop-indicator drop-indicator-left');
+  });
+
+  it('draws a merged cell only once', () => {
+    const merged = EditorState.create({
+      doc: doc(table(tr(c(2, 1)), tr(c11, c11))),
+    });
+    ist(positions(dropDecorations(merged, { ...rowDrag, drop: 0 })).length, 1);
+  });
+
+  it('returns an empty set for a position outside a table', () =>
+    ist(
+      dropDecorations(EditorState.create({ doc: doc(p('x')) }), {
+        ...rowDrag,
+        drop: 0,
+      }),
+      DecorationSet.empty,
+    ));
+});
+
+describe('canMoveTableLines', () => {
+  const map = TableMap.get(table(tr(c(1, 2), c11), tr(c11), tr(c11, c11)));
+
+  it('allows moves along row boundaries', () =>
+    ist(canMoveTableLines(map, 'row', { from: 2, to: 0 })));
+
+  it('refuses moves that cut through a spanning cell', () =>
+    ist(!canMoveTableLines(map, 'row', { from: 2, to: 1 })));
+
+  it('refuses moving columns out of range', () =>
+    ist(!canMoveTableLines(map, 'column', { from: 1, to: 2 })));
+});
@@ -0,0 +1,55 @@
+import ist from 'ist';
+import { DOMParser, DOMSerializer, Schema } from 'prosemirror-model';
+import { schema as baseSchema } from 'prosemirror-schema-basic';
+import { describe, it } from 'vitest';
+
+import { tableNodes } from '../src/';
+import { eq, p, table, td, tr } from './build';
+
+describe('tableNodes', () => {
+  it('lets cell attributes add to the style', () => {
+    const schema = new Schema({
+      nodes: baseSchema.spec.nodes.append(
+        tableNodes({
+          tableGroup: 'block',
+          cellContent: 'block+',
+          cellAttributes: {
+            borderColor: {
+              default: null,
+              setDOMAttr(value, attrs) {
+                if (value)
+                  attrs.style = (attrs.style || '') + `border-color: ${value};`;
+              },
+            },
+          },
+        }),
+      ),
+    });
+    const cell = schema.nodes.table_cell.create(
+      { alignment: 'left', borderColor: 'red' },
+      schema.nodes.paragraph.create(),
+    );
+    const dom = DOMSerializer.fromSchema(schema).serializeNode(cell);
+    ist(
+      (dom as HTMLElement).getAttribute('style'),
+      'text-align: left;border-color: red;',
+    );
+  });
+
+  it('leaves unsafe background values out of the style', () => {
+    const cell = td({ alignment: 'left', background: 'red; x: y' }, p('a'));
+    const dom = DOMSerializer.fromSchema(cell.type.schema).serializeNode(cell);
+    ist((dom as HTMLElement).getAttribute('style'), 'text-align: left;');
+  });
+
+  it('reads the background color of parsed cells', () => {
+    const dom = document.createElement('div');
+    dom.innerHTML =
+      '<table><tr><td style="background-color: #ffff00">a</td></tr></table>';
+    ist(
+      DOMParser.fromSchema(table().type.schema).parse(dom).firstChild,
+      table(tr(td({ background: '#ffff00' }, p('a')))),
+      eq,
+    );
+  });
+});
@@ -0,0 +1,49 @@
+import ist from 'ist';
+import { describe, it } from 'vitest';
+
+import { detectSeries } from '../src/';
+
+function continues(seeds: string[], expected: string[]) {
+  const series = detectSeries(seeds);
+  ist(
+    expected.map((_, i) => series(seeds.length + i)).join(' '),
+    expected.join(' '),
+  );
+}
+
+describe('detectSeries', () => {
+  it('counts up from a single number', () => continues(['7'], ['8', '9']));
+
+  it('continues an arithmetic sequence', () =>
+    continues(['1', '2', '3'], ['4', '5']));
+
+  it('keeps the step between numbers', () =>
+    continues(['10', '8'], ['6', '4']));
+
+  it('keeps decimal places', () => continues(['0.5', '1.0'], ['1.5', '2.0']));
+
+  it('continues numbers after a prefix', () =>
+    continues(['Item 08', 'Item 09'], ['Item 10', 'Item 11']));
+
+  it('continues weekdays', () => continues(['Mon', 'Tue'], ['Wed', 'Thu']));
+
+  it('wraps around the end of the week', () =>
+    continues(['saturday', 'sunday'], ['monday']));
+
+  it('keeps upper-case names', () => continues(['JAN'], ['FEB', 'MAR']));
+
+  it('continues year-month dates', () =>
+    continues(['2026-01'], ['2026-02', '2026-03']));
+
+  it('rolls months over into the next year', () =>
+    continues(['2025-11', '2025-12'], ['2026-01']));
+
+  it('continues full dates by the day step', () =>
+    continues(['2026-02-26', '2026-02-28'], ['2026-03-02']));
+
+  it('repeats values without a pattern', () =>
+    continues(['a', 'b'], ['a', 'b', 'a']));
+
+  it('repeats numbers without a constant step', () =>
+    continues(['1', '2', '4'], ['1', '2']));
+});
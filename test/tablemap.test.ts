@@ -1,6 +1,6 @@
 import ist from 'ist';
 
-import { table, tr, c, c11 } from './build';
+import { table, tr, c, c11, p, td } from './build';
 import { Rect, TableMap } from '../src/';
 import { describe, it } from 'vitest';
 
@@ -106,4 +106,36 @@ describe('TableMap', () => {
     ist(map.nextCell(25, 'horiz', 1), null);
     ist(map.nextCell(25, 'horiz', -1), 1);
   });
+
+  describe('column width problems', () => {
+    const cw100 = td({ colwidth: [100] }, p('x'));
+    const cw200 = td({ colwidth: [200] }, p('x'));
+
+    it('reports no problems when widths agree', () =>
+      ist(TableMap.get(table(tr(cw100, c11), tr(cw100, c11))).problems, null));
+
+    it('reports cells without the column width', () =>
+      ist(
+        JSON.stringify(
+          TableMap.get(table(tr(cw100, c11), tr(c11, c11))).problems,
+        ),
+        '[{"type":"colwidth_mismatch","pos":13,"colwidth":[100]}]',
+      ));
+
+    it('picks the width most rows agree on', () =>
+      ist(
+        JSON.stringify(
+          TableMap.get(table(tr(cw100), tr(cw200), tr(cw100))).problems,
+        ),
+        '[{"type":"colwidth_mismatch","pos":8,"colwidth":[100]}]',
+      ));
+
+    it('fills in the widths of spanning cells', () =>
+      ist(
+        JSON.stringify(
+          TableMap.get(table(tr(c11, cw200), tr(c(2, 1)))).problems,
+        ),
+        '[{"type":"colwidth_mismatch","pos":13,"colwidth":[0,200]}]',
+      ));
+  });
 });
@@ -0,0 +1,73 @@
+import ist from 'ist';
+import { describe, it } from 'vitest';
+
+import { TableView } from '../src/';
+import { c11, p, table, td, tr } from './build';
+
+const cw100 = td({ colwidth: [100] }, p('x'));
+const cw200 = td({ colwidth: [200] }, p('x'));
+
+function cols(view: TableView) {
+  return Array.from(view.colgroup.children).map(
+    (col) => (col as HTMLElement).style.width,
+  );
+}
+
+describe('TableView', () => {
+  it('renders a col for each column', () => {
+    const view = new TableView(table(tr(cw100, td({ colspan: 2 }, p()))), 25);
+    ist(cols(view).join(','), '100px,,');
+    ist(view.table.style.minWidth, '150px');
+    ist(view.table.style.width, '');
+  });
+
+  it('sets a fixed width when all columns have widths', () => {
+    const view = new TableView(table(tr(cw100, cw200)), 25);
+    ist(view.table.style.width, '300px');
+    ist(view.table.style.minWidth, '');
+  });
+
+  it('updates the colgroup when the table changes', () => {
+    const view = new TableView(table(tr(cw100, c11, c11)), 25);
+    ist(view.update(table(tr(cw200, c11))), true);
+    ist(cols(view).join(','), '200px,');
+    ist(view.colgroup.children.length, 2);
+  });
+
+  it('ignores attribute mutations on its colgroup', () => {
+    const view = new TableView(table(tr(cw100)), 25);
+    const record = {
+      type: 'attributes',
+      target: view.colgroup.firstChild,
+    } as unknown as MutationRecord;
+    ist(view.ignoreMutation(record), true);
+  });
+
+  it('renders the table attributes', () => {
+    const view = new TableView(
+      table({ caption: 'Cap', layout: 'fixed' }, tr(c11)),
+      25,
+    );
+    ist(view.table.getAttribute('data-layout'), 'fixed');
+    ist(view.table.firstChild, view.caption);
+    ist(view.caption!.textContent, 'Cap');
+    view.update(table({ alignment: 'center' }, tr(c11)));
+    ist(view.table.hasAttribute('data-layout'), false);
+    ist(view.table.getAttribute('data-align'), 'center');
+    ist(view.caption, null);
+    ist(view.table.querySelector('caption'), null);
+  });
+
+  it('stretches full-width tables', () => {
+    const view = new TableView(
+      table(
+        { layout: 'full-width' },
+        tr(td({ colwidth: [100] }, p('x')), td({ colwidth: [50] }, p('x'))),
+      ),
+      25,
+    );
+    ist(view.table.getAttribute('data-layout'), 'full-width');
+    ist(view.table.style.width, '');
+    ist(view.table.style.minWidth, '150px');
+  });
+});